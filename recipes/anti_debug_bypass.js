@@ -0,0 +1,62 @@
+const PTRACE_TRACEME = 0;
+const PT_DENY_ATTACH = 31;
+const P_TRACED = 0x800;
+
+const hooked = [];
+const report = (hook, detail) => {
+    if (RECIPE_PARAMS.verbose) send({ type: 'recipe_event', recipe: 'anti_debug_bypass', hook: hook, detail: detail });
+};
+
+// ptrace(PTRACE_TRACEME) / ptrace(PT_DENY_ATTACH) succeed without doing anything
+const ptraceAddress = RECIPE_PARAMS.ptrace ? Module.findGlobalExportByName('ptrace') : null;
+if (ptraceAddress) {
+    const ptrace = new NativeFunction(ptraceAddress, 'long', ['int', 'int', 'pointer', 'pointer']);
+    Interceptor.replace(ptraceAddress, new NativeCallback((request, pid, addr, data) => {
+        if (request === PTRACE_TRACEME || (Process.platform === 'darwin' && request === PT_DENY_ATTACH)) {
+            report('ptrace', request);
+            return 0;
+        }
+        return ptrace(request, pid, addr, data);
+    }, 'long', ['int', 'int', 'pointer', 'pointer']));
+    hooked.push('ptrace');
+}
+
+// /proc/self/status always reports no tracer
+const fgets = RECIPE_PARAMS.tracer_pid && Process.platform === 'linux' ? Module.findGlobalExportByName('fgets') : null;
+if (fgets) {
+    Interceptor.attach(fgets, {
+        onEnter(args) {
+            this.buffer = args[0];
+        },
+        onLeave(retval) {
+            if (retval.isNull()) return;
+            const line = this.buffer.readUtf8String();
+            if (line !== null && line.startsWith('TracerPid:') && line.trim() !== 'TracerPid:\t0') {
+                report('TracerPid', line.trim());
+                this.buffer.writeUtf8String('TracerPid:\t0\n');
+            }
+        }
+    });
+    hooked.push('fgets');
+}
+
+// sysctl(KERN_PROC_PID) never shows the P_TRACED flag
+const sysctl = RECIPE_PARAMS.sysctl && Process.platform === 'darwin' ? Module.findGlobalExportByName('sysctl') : null;
+if (sysctl) {
+    Interceptor.attach(sysctl, {
+        onEnter(args) {
+            this.info = args[2];
+        },
+        onLeave(retval) {
+            if (retval.toInt32() !== 0 || this.info.isNull()) return;
+            const flags = this.info.add(32).readInt();
+            if (flags & P_TRACED) {
+                report('sysctl', flags);
+                this.info.add(32).writeInt(flags & ~P_TRACED);
+            }
+        }
+    });
+    hooked.push('sysctl');
+}
+
+send({ type: 'ready', recipe: 'anti_debug_bypass', hooked: hooked });
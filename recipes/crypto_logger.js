@@ -0,0 +1,65 @@
+import Java from "frida-java-bridge";
+
+const hooked = [];
+const hex = bytes => {
+    if (bytes === null || bytes === undefined) return null;
+    const length = Math.min(bytes.length, RECIPE_PARAMS.max_bytes);
+    let text = '';
+    for (let i = 0; i < length; i++) text += (bytes[i] & 0xff).toString(16).padStart(2, '0');
+    return bytes.length > length ? text + '...' : text;
+};
+const wanted = algorithm => RECIPE_PARAMS.algorithms.length === 0
+    || RECIPE_PARAMS.algorithms.some(prefix => String(algorithm).toUpperCase().startsWith(prefix.toUpperCase()));
+const emit = (api, algorithm, fields) => {
+    if (!wanted(algorithm)) return;
+    const event = Object.assign({ type: 'recipe_event', recipe: 'crypto_logger', api: api, algorithm: algorithm }, fields);
+    if (RECIPE_PARAMS.backtrace) {
+        event.backtrace = Java.use('android.util.Log').getStackTraceString(Java.use('java.lang.Exception').$new()).split('\n').slice(1, 16);
+    }
+    send(event);
+};
+const tryHook = (name, install) => {
+    try {
+        install();
+        hooked.push(name);
+    } catch (e) { }
+};
+
+Java.perform(() => {
+    tryHook('Cipher', () => {
+        const Cipher = Java.use('javax.crypto.Cipher');
+        Cipher.init.overloads.forEach(overload => {
+            overload.implementation = function (opmode, key) {
+                const encoded = key && key.getEncoded ? key.getEncoded() : null;
+                emit('Cipher.init', this.getAlgorithm(), { mode: opmode === 1 ? 'encrypt' : opmode === 2 ? 'decrypt' : opmode, key: hex(encoded) });
+                return overload.apply(this, arguments);
+            };
+        });
+        const doFinal = Cipher.doFinal.overload('[B');
+        doFinal.implementation = function (input) {
+            const output = doFinal.call(this, input);
+            const iv = this.getIV();
+            emit('Cipher.doFinal', this.getAlgorithm(), { input: hex(input), output: hex(output), iv: hex(iv) });
+            return output;
+        };
+    });
+    tryHook('Mac', () => {
+        const Mac = Java.use('javax.crypto.Mac');
+        const doFinal = Mac.doFinal.overload('[B');
+        doFinal.implementation = function (input) {
+            const output = doFinal.call(this, input);
+            emit('Mac.doFinal', this.getAlgorithm(), { input: hex(input), output: hex(output) });
+            return output;
+        };
+    });
+    tryHook('MessageDigest', () => {
+        const MessageDigest = Java.use('java.security.MessageDigest');
+        const digest = MessageDigest.digest.overload('[B');
+        digest.implementation = function (input) {
+            const output = digest.call(this, input);
+            emit('MessageDigest.digest', this.getAlgorithm(), { input: hex(input), output: hex(output) });
+            return output;
+        };
+    });
+    send({ type: 'ready', recipe: 'crypto_logger', hooked: hooked });
+});
@@ -0,0 +1,30 @@
+const hooked = [];
+for (const name of ['dlopen', 'android_dlopen_ext']) {
+    const target = Module.findGlobalExportByName(name);
+    if (!target) continue;
+    Interceptor.attach(target, {
+        onEnter(args) {
+            this.path = args[0].isNull() ? null : args[0].readUtf8String();
+            this.flags = args[1].toInt32();
+            this.backtrace = RECIPE_PARAMS.backtrace
+                ? Thread.backtrace(this.context, Backtracer.ACCURATE).map(DebugSymbol.fromAddress).map(String)
+                : undefined;
+        },
+        onLeave(retval) {
+            if (RECIPE_PARAMS.filter && (this.path === null || !this.path.includes(RECIPE_PARAMS.filter))) return;
+            send({
+                type: 'recipe_event',
+                recipe: 'dlopen_logger',
+                function: name,
+                path: this.path,
+                flags: this.flags,
+                handle: retval.toString(),
+                loaded: !retval.isNull(),
+                thread_id: Process.getCurrentThreadId(),
+                backtrace: this.backtrace
+            });
+        }
+    });
+    hooked.push(name);
+}
+send({ type: 'ready', recipe: 'dlopen_logger', hooked: hooked });
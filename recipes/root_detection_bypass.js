@@ -0,0 +1,85 @@
+import Java from "frida-java-bridge";
+
+const ROOT_PATHS = [
+    '/system/bin/su', '/system/xbin/su', '/sbin/su', '/su/bin/su', '/data/local/su', '/data/local/bin/su',
+    '/data/local/xbin/su', '/system/app/Superuser.apk', '/system/xbin/busybox', '/data/adb/magisk', '/sbin/.magisk'
+].concat(RECIPE_PARAMS.paths);
+const ROOT_PACKAGES = [
+    'com.topjohnwu.magisk', 'eu.chainfire.supersu', 'com.koushikdutta.superuser', 'com.noshufou.android.su',
+    'com.thirdparty.superuser', 'com.kingroot.kinguser'
+].concat(RECIPE_PARAMS.packages);
+
+const hooked = [];
+const report = (hook, detail) => {
+    if (RECIPE_PARAMS.verbose) send({ type: 'recipe_event', recipe: 'root_detection_bypass', hook: hook, detail: detail });
+};
+const tryHook = (name, install) => {
+    try {
+        install();
+        hooked.push(name);
+    } catch (e) { }
+};
+const isRootPath = path => path !== null && (ROOT_PATHS.includes(path) || path.endsWith('/su'));
+const isRootCommand = command => command.split(' ').some(word => word === 'su' || word.endsWith('/su') || word === 'busybox');
+
+// Native checks (access/stat/fopen on su binaries) see a path that does not exist
+for (const name of ['access', 'fopen', 'stat', 'lstat']) {
+    const target = Module.findGlobalExportByName(name);
+    if (!target) continue;
+    tryHook(name, () => {
+        Interceptor.attach(target, {
+            onEnter(args) {
+                const path = args[0].isNull() ? null : args[0].readUtf8String();
+                if (!isRootPath(path)) return;
+                report(name, path);
+                this.replacement = Memory.allocUtf8String('/nonexistent/' + path);
+                args[0] = this.replacement;
+            }
+        });
+    });
+}
+
+Java.perform(() => {
+    tryHook('File.exists', () => {
+        const File = Java.use('java.io.File');
+        File.exists.implementation = function () {
+            const path = this.getAbsolutePath();
+            if (isRootPath(path)) {
+                report('File.exists', path);
+                return false;
+            }
+            return this.exists();
+        };
+    });
+    tryHook('Runtime.exec', () => {
+        const Runtime = Java.use('java.lang.Runtime');
+        const IOException = Java.use('java.io.IOException');
+        Runtime.exec.overloads.forEach(overload => {
+            overload.implementation = function (command) {
+                const text = typeof command === 'string' ? command : Array.from(command).join(' ');
+                if (isRootCommand(text)) {
+                    report('Runtime.exec', text);
+                    throw IOException.$new('Cannot run program');
+                }
+                return overload.apply(this, arguments);
+            };
+        });
+    });
+    tryHook('PackageManager.getPackageInfo', () => {
+        const PackageManager = Java.use('android.app.ApplicationPackageManager');
+        const NameNotFoundException = Java.use('android.content.pm.PackageManager$NameNotFoundException');
+        PackageManager.getPackageInfo.overloads.forEach(overload => {
+            overload.implementation = function (packageName) {
+                if (typeof packageName === 'string' && ROOT_PACKAGES.includes(packageName)) {
+                    report('PackageManager.getPackageInfo', packageName);
+                    throw NameNotFoundException.$new(packageName);
+                }
+                return overload.apply(this, arguments);
+            };
+        });
+    });
+    tryHook('Build.TAGS', () => {
+        Java.use('android.os.Build').TAGS.value = 'release-keys';
+    });
+    send({ type: 'ready', recipe: 'root_detection_bypass', hooked: hooked });
+});
@@ -0,0 +1,64 @@
+import Java from "frida-java-bridge";
+
+const hooked = [];
+const report = (hook, detail) => {
+    if (RECIPE_PARAMS.verbose) send({ type: 'recipe_event', recipe: 'ssl_pinning_bypass', hook: hook, detail: detail });
+};
+const tryHook = (name, install) => {
+    try {
+        install();
+        hooked.push(name);
+    } catch (e) { }
+};
+
+Java.perform(() => {
+    if (RECIPE_PARAMS.trust_manager) {
+        tryHook('TrustManagerImpl.verifyChain', () => {
+            const TrustManagerImpl = Java.use('com.android.org.conscrypt.TrustManagerImpl');
+            TrustManagerImpl.verifyChain.implementation = function (untrustedChain, trustAnchorChain, host) {
+                report('TrustManagerImpl.verifyChain', host);
+                return untrustedChain;
+            };
+        });
+        tryHook('TrustManagerImpl.checkTrustedRecursive', () => {
+            const TrustManagerImpl = Java.use('com.android.org.conscrypt.TrustManagerImpl');
+            const ArrayList = Java.use('java.util.ArrayList');
+            TrustManagerImpl.checkTrustedRecursive.implementation = function () {
+                report('TrustManagerImpl.checkTrustedRecursive', null);
+                return ArrayList.$new();
+            };
+        });
+        tryHook('SSLContext.init', () => {
+            const X509TrustManager = Java.use('javax.net.ssl.X509TrustManager');
+            const SSLContext = Java.use('javax.net.ssl.SSLContext');
+            const TrustAll = Java.registerClass({
+                name: 'mcp.recipes.TrustAllManager',
+                implements: [X509TrustManager],
+                methods: {
+                    checkClientTrusted(chain, authType) { },
+                    checkServerTrusted(chain, authType) { },
+                    getAcceptedIssuers() { return []; }
+                }
+            });
+            const init = SSLContext.init.overload('[Ljavax.net.ssl.KeyManager;', '[Ljavax.net.ssl.TrustManager;', 'java.security.SecureRandom');
+            init.implementation = function (keyManagers, trustManagers, random) {
+                report('SSLContext.init', null);
+                init.call(this, keyManagers, [TrustAll.$new()], random);
+            };
+        });
+    }
+    if (RECIPE_PARAMS.okhttp) {
+        tryHook('okhttp3.CertificatePinner', () => {
+            const CertificatePinner = Java.use('okhttp3.CertificatePinner');
+            for (const method of ['check', 'check$okhttp']) {
+                if (!CertificatePinner[method]) continue;
+                CertificatePinner[method].overloads.forEach(overload => {
+                    overload.implementation = function (host) {
+                        report('okhttp3.CertificatePinner.' + method, host);
+                    };
+                });
+            }
+        });
+    }
+    send({ type: 'ready', recipe: 'ssl_pinning_bypass', hooked: hooked });
+});
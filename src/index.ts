@@ -1,58 +1,857 @@
 #!/usr/bin/env node
-import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpServer, ResourceTemplate, ResourceMetadata, ReadResourceCallback, ReadResourceTemplateCallback } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { isInitializeRequest, CallToolResult, ServerNotification, ServerRequest, SubscribeRequestSchema, ToolAnnotations, UnsubscribeRequestSchema } from "@modelcontextprotocol/sdk/types.js";
 import { z } from "zod";
 import * as frida from "frida";
-import { Device, Session, Script, SpawnOptions, ScriptRuntime } from "frida";
+import { Device, Session, Script, SpawnOptions, ScriptRuntime, SessionOptions, Realm, Crash, Stdio, BuildOptions, TypeCheckMode, JsCompression, SourceMaps } from "frida";
+import { AsyncLocalStorage } from "async_hooks";
+import { createHash, randomUUID, timingSafeEqual } from "crypto";
+import { createWriteStream, existsSync, readdirSync, readFileSync, realpathSync, statSync, watch, FSWatcher, WriteStream } from "fs";
+import { mkdir, readdir, readFile, rename, writeFile } from "fs/promises";
+import http, { IncomingMessage, ServerResponse } from "http";
+import os from "os";
+import path from "path";
+import { fileURLToPath } from "url";
 
-// --- Session Management ---
-interface ActiveSession {
-    session: Session;
-    scripts: Map<string, Script>;
-    messageQueue: any[];
-    id: string;
+// --- Timeouts & Cancellation ---
+const DEFAULT_TIMEOUT_MS = 30000;
+
+class TimeoutError extends Error {
+    readonly code = 'TIMEOUT';
+    constructor(message: string, readonly timeoutMs: number) {
+        super(message);
+        this.name = 'TimeoutError';
+    }
 }
 
-const sessions = new Map<string, ActiveSession>();
+class CancelledError extends Error {
+    readonly code = 'CANCELLED';
+    constructor(message: string) {
+        super(message);
+        this.name = 'CancelledError';
+    }
+}
 
-class SessionManager {
-    static async create(processId: number, deviceId?: string): Promise<string> {
-        const device = deviceId ? await frida.getDevice(deviceId) : await frida.getUsbDevice();
-        const session = await device.attach(processId);
-        const sessionId = `session_${processId}_${Date.now()}`;
+interface CallLimits {
+    timeoutMs?: number;
+    signal?: AbortSignal;
+}
 
-        sessions.set(sessionId, {
-            session,
-            scripts: new Map(),
-            messageQueue: [],
-            id: sessionId
+// Race an operation against a deadline and the MCP request's abort signal.
+// onExpire runs once if either fires first, so callers can unload the offending script.
+function withLimits<T>(operation: Promise<T>, what: string, limits: CallLimits, onExpire: () => void): Promise<T> {
+    const timeoutMs = limits.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+    const { signal } = limits;
+
+    return new Promise<T>((resolve, reject) => {
+        let settled = false;
+        const finish = (fn: () => void) => {
+            if (settled) return;
+            settled = true;
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onAbort);
+            fn();
+        };
+        const expire = (err: Error) => finish(() => {
+            try { onExpire(); } catch { }
+            reject(err);
         });
+        const onAbort = () => expire(new CancelledError(`${what} was cancelled by the client`));
+
+        const timer = setTimeout(() => expire(new TimeoutError(`${what} timed out after ${timeoutMs}ms`, timeoutMs)), timeoutMs);
+        if (signal?.aborted) return onAbort();
+        signal?.addEventListener('abort', onAbort);
+
+        operation.then(
+            value => finish(() => resolve(value)),
+            err => finish(() => reject(err))
+        );
+    });
+}
+
+// --- Errors ---
+// Every tool reports failures with the same envelope: a stable code, a message, the underlying
+// Frida error (if any) and a remediation hint. Agents can branch on the code instead of the text.
+type ErrorCode =
+    | 'DEVICE_NOT_FOUND'
+    | 'SESSION_NOT_FOUND'
+    | 'SESSION_DETACHED'
+    | 'PROCESS_NOT_FOUND'
+    | 'SCRIPT_NOT_FOUND'
+    | 'SCRIPT_ERROR'
+    | 'COMPILE_ERROR'
+    | 'NOT_FOUND'
+    | 'INVALID_ARGUMENT'
+    | 'TIMEOUT'
+    | 'CANCELLED'
+    | 'PERMISSION_DENIED'
+    | 'NOT_SUPPORTED'
+    | 'TRANSPORT_ERROR'
+    | 'INTERNAL_ERROR';
+
+const REMEDIATION: Record<ErrorCode, string> = {
+    DEVICE_NOT_FOUND: "Run enumerate_devices to check the device ID; for remote devices call add_remote_device first.",
+    SESSION_NOT_FOUND: "The session ID is unknown or was detached. Run list_sessions, or create_interactive_session again.",
+    SESSION_DETACHED: "The target process exited or the connection dropped. Re-attach with create_interactive_session (or enable auto_reattach).",
+    PROCESS_NOT_FOUND: "The process is not running. Run enumerate_processes, or spawn it with spawn_process.",
+    SCRIPT_NOT_FOUND: "Run list_scripts to see the script IDs loaded in this session.",
+    SCRIPT_ERROR: "The script threw. Check the message and stack, fix the code and retry.",
+    COMPILE_ERROR: "Fix the reported diagnostics and retry.",
+    NOT_FOUND: "The requested item does not exist. List the available ones and retry with a valid name.",
+    INVALID_ARGUMENT: "Check the tool arguments against its input schema.",
+    TIMEOUT: "Retry with a larger timeout_ms, or check whether the target is blocked (e.g. suspended and never resumed).",
+    CANCELLED: "The client cancelled the request; retry if the result is still needed.",
+    PERMISSION_DENIED: "Run frida-server as root (or use a debuggable app), or adjust the server policy.",
+    NOT_SUPPORTED: "This operation is not supported by the target device, runtime or Frida version.",
+    TRANSPORT_ERROR: "Check that frida-server is running, matches the client Frida version, and that the USB/network link is up.",
+    INTERNAL_ERROR: "Unexpected failure. Retry; if it persists, check the server's stderr log."
+};
+
+class ToolError extends Error {
+    constructor(readonly code: ErrorCode, message: string, cause?: unknown) {
+        super(message, cause === undefined ? undefined : { cause });
+        this.name = 'ToolError';
+    }
+}
+
+// Frida reports most failures as plain Errors; map their messages onto stable codes
+const FRIDA_ERROR_PATTERNS: [RegExp, ErrorCode][] = [
+    [/unable to find device|device not found|device is gone|device (has been )?lost/i, 'DEVICE_NOT_FOUND'],
+    [/unable to (find|locate) process|process not found|no such process|process (has )?(terminated|exited)/i, 'PROCESS_NOT_FOUND'],
+    [/permission denied|not permitted|unable to access process|access denied|run as root/i, 'PERMISSION_DENIED'],
+    [/session (is|has been) detached|session is gone/i, 'SESSION_DETACHED'],
+    [/script (is|has been) destroyed/i, 'SCRIPT_ERROR'],
+    [/timed out|timeout was reached/i, 'TIMEOUT'],
+    [/unable to connect|connection (refused|closed|reset)|incompatible .*protocol|transport/i, 'TRANSPORT_ERROR'],
+    [/not supported|unsupported/i, 'NOT_SUPPORTED'],
+    [/\b(ReferenceError|TypeError|SyntaxError|RangeError)\b/, 'SCRIPT_ERROR'],
+    [/not found|no functions match|does not exist|is not registered/i, 'NOT_FOUND'],
+    [/invalid|must be|is required|expected/i, 'INVALID_ARGUMENT']
+];
+
+function classifyError(e: any): ErrorCode {
+    if (typeof e?.code === 'string' && e.code in REMEDIATION) return e.code as ErrorCode;
+    const message = String(e?.message ?? e);
+    return FRIDA_ERROR_PATTERNS.find(([pattern]) => pattern.test(message))?.[1] ?? 'INTERNAL_ERROR';
+}
+
+// Errors thrown inside an agent reach the server as RPC rejections; keep their message but mark them as script errors
+function agentError(e: any): Error {
+    if (e instanceof ToolError || e instanceof TimeoutError || e instanceof CancelledError) return e;
+    const code = classifyError(e);
+    return new ToolError(code === 'INTERNAL_ERROR' ? 'SCRIPT_ERROR' : code, String(e?.message ?? e), e);
+}
+
+// --- Message Queue ---
+const DEFAULT_QUEUE_CAPACITY = Number(process.env.FRIDA_MCP_QUEUE_CAPACITY) || 1000;
+
+interface QueuedMessage {
+    cursor: number;
+    timestamp: string;
+    script_id: string;
+    message: any;
+    data: Buffer | null;
+}
+
+interface MessageQuery {
+    sinceCursor?: number;
+    untilCursor?: number;
+    limit?: number;
+    scriptId?: string;
+    types?: string[];
+    payloadContains?: string;
+    payloadPath?: string;
+    payloadEquals?: any;
+    textPattern?: RegExp;
+}
+
+// Minimal JSONPath subset: `$.a.b[0].c` / `a.b.0.c`
+function jsonPathGet(value: any, path: string): any {
+    const parts = path.replace(/^\$\.?/, '').replace(/\[(\d+|'[^']*'|"[^"]*")\]/g, '.$1').split('.').filter(Boolean);
+    let current = value;
+    for (const raw of parts) {
+        if (current === null || current === undefined) return undefined;
+        current = current[raw.replace(/^['"]|['"]$/g, '')];
+    }
+    return current;
+}
+
+// Human-readable text of a message: the error description, a string payload,
+// the captured console logs of an execution receipt, or the JSON payload
+function messageText(entry: QueuedMessage): string {
+    const { message } = entry;
+    if (message?.type === 'error') return String(message.description ?? '');
+    const payload = message?.payload;
+    if (typeof payload === 'string') return payload;
+    if (Array.isArray(payload?.logs)) return payload.logs.join('\n');
+    return JSON.stringify(payload) ?? '';
+}
+
+// Bounded ring buffer; the oldest messages are dropped (and counted) once capacity is reached.
+// Cursors increase monotonically so clients can page through without losing their place.
+class MessageBuffer {
+    private items: QueuedMessage[] = [];
+    private nextCursor = 1;
+    private listeners = new Set<(entry: QueuedMessage) => void>();
+    dropped = 0;
+
+    constructor(readonly capacity: number) { }
+
+    get size(): number {
+        return this.items.length;
+    }
+
+    get lastCursor(): number {
+        return this.nextCursor - 1;
+    }
+
+    push(scriptId: string, message: any, data: Buffer | null): QueuedMessage {
+        const entry = { cursor: this.nextCursor++, timestamp: new Date().toISOString(), script_id: scriptId, message, data };
+        this.items.push(entry);
+        if (this.items.length > this.capacity) {
+            const excess = this.items.length - this.capacity;
+            this.items.splice(0, excess);
+            this.dropped += excess;
+        }
+        for (const listener of this.listeners) listener(entry);
+        return entry;
+    }
+
+    // Register a callback for every newly queued message; returns an unsubscribe function
+    subscribe(listener: (entry: QueuedMessage) => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    static matches(entry: QueuedMessage, query: MessageQuery): boolean {
+        if (query.sinceCursor !== undefined && entry.cursor <= query.sinceCursor) return false;
+        if (query.untilCursor !== undefined && entry.cursor > query.untilCursor) return false;
+        if (query.scriptId && entry.script_id !== query.scriptId) return false;
+        if (query.types && query.types.length > 0) {
+            const { message } = entry;
+            if (!query.types.includes(message?.type) && !query.types.includes(message?.payload?.type)) return false;
+        }
+        const body = entry.message?.type === 'error' ? entry.message : entry.message?.payload;
+        if (query.payloadContains !== undefined) {
+            const text = typeof body === 'string' ? body : JSON.stringify(body) ?? '';
+            if (!text.includes(query.payloadContains)) return false;
+        }
+        if (query.payloadPath) {
+            const value = jsonPathGet(entry.message, query.payloadPath);
+            if (value === undefined) return false;
+            if (query.payloadEquals !== undefined && JSON.stringify(value) !== JSON.stringify(query.payloadEquals)) return false;
+        }
+        if (query.textPattern && !query.textPattern.test(messageText(entry))) return false;
+        return true;
+    }
+
+    // Returns matching messages; unless peeking, the returned messages are removed from the buffer
+    query(query: MessageQuery, peek: boolean): QueuedMessage[] {
+        const matched: QueuedMessage[] = [];
+        for (const entry of this.items) {
+            if (query.limit !== undefined && matched.length >= query.limit) break;
+            if (MessageBuffer.matches(entry, query)) matched.push(entry);
+        }
+        if (!peek && matched.length > 0) {
+            const taken = new Set(matched);
+            this.items = this.items.filter(entry => !taken.has(entry));
+        }
+        return matched;
+    }
+}
+
+// --- Serialization ---
+// Results and message data are made JSON-safe before they reach the client: binary becomes base64 or a
+// hexdump, and anything larger than MAX_INLINE_BYTES is parked in a blob store behind a frida://blobs/ URI.
+const MAX_INLINE_BYTES = Number(process.env.FRIDA_MCP_MAX_INLINE_BYTES) || 64 * 1024;
+const BLOB_PREVIEW_BYTES = 1024;
+const MAX_BLOB_STORE_BYTES = 64 * 1024 * 1024;
+
+type BinaryEncoding = 'base64' | 'hexdump';
+
+interface StoredBlob {
+    data: Buffer;
+    mimeType: string;
+    createdAt: number;
+}
+
+// Insertion-ordered so the oldest blobs are evicted first; IDs are content hashes so re-reads don't duplicate
+const blobs = new Map<string, StoredBlob>();
+let blobBytes = 0;
+
+// Agent-side counterpart, embedded in the execution wrapper and the REPL agent.
+// Pointers and 64-bit integers become strings, binary becomes { $type: 'bytes' }, cycles become { $ref: path }.
+const SERIALIZER_AGENT_SOURCE = `
+function __mcpSerialize(value, binary) {
+    var BASE64 = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/';
+    var ancestors = new Map();
+
+    function base64(bytes) {
+        var out = '';
+        for (var i = 0; i < bytes.length; i += 3) {
+            var n = (bytes[i] << 16) | ((bytes[i + 1] || 0) << 8) | (bytes[i + 2] || 0);
+            out += BASE64[(n >> 18) & 63] + BASE64[(n >> 12) & 63] +
+                (i + 1 < bytes.length ? BASE64[(n >> 6) & 63] : '=') +
+                (i + 2 < bytes.length ? BASE64[n & 63] : '=');
+        }
+        return out;
+    }
+
+    function encodeBytes(buffer) {
+        var bytes = new Uint8Array(buffer);
+        if (binary === 'hexdump') {
+            var dump = bytes.length > 0 ? hexdump(buffer, { length: bytes.length, header: false, ansi: false }) : '';
+            return { $type: 'bytes', length: bytes.length, encoding: 'hexdump', data: dump };
+        }
+        return { $type: 'bytes', length: bytes.length, encoding: 'base64', data: base64(bytes) };
+    }
+
+    function walk(v, path) {
+        if (v === null || v === undefined) return v;
+        var type = typeof v;
+        if (type === 'string' || type === 'boolean') return v;
+        if (type === 'number') return isFinite(v) ? v : { $type: 'number', value: String(v) };
+        if (type === 'bigint') return { $type: 'bigint', value: v.toString() };
+        if (type === 'function') return { $type: 'function', name: v.name || null };
+        if (type === 'symbol') return { $type: 'symbol', value: v.toString() };
+        if (v instanceof NativePointer || v instanceof Int64 || v instanceof UInt64) return v.toString();
+        if (v instanceof ArrayBuffer) return encodeBytes(v);
+        if (ArrayBuffer.isView(v)) return encodeBytes(v.buffer.slice(v.byteOffset, v.byteOffset + v.byteLength));
+        if (ancestors.has(v)) return { $ref: ancestors.get(v) };
+
+        ancestors.set(v, path);
+        var out;
+        if (v instanceof Error) {
+            out = { $type: 'error', name: v.name, message: v.message, stack: v.stack };
+        } else if (v instanceof Map) {
+            out = { $type: 'map', entries: [] };
+            v.forEach(function(item, key) {
+                out.entries.push([walk(key, path + '.<key>'), walk(item, path + '[' + JSON.stringify(String(key)) + ']')]);
+            });
+        } else if (v instanceof Set) {
+            var index = 0;
+            out = { $type: 'set', values: [] };
+            v.forEach(function(item) { out.values.push(walk(item, path + '[' + (index++) + ']')); });
+        } else if (Array.isArray(v)) {
+            out = v.map(function(item, i) {
+                var encoded = walk(item, path + '[' + i + ']');
+                return encoded === undefined ? null : encoded;
+            });
+        } else if (typeof v.toJSON === 'function') {
+            out = walk(v.toJSON(), path);
+        } else {
+            out = {};
+            Object.keys(v).forEach(function(key) {
+                var encoded = walk(v[key], path + '.' + key);
+                if (encoded !== undefined) out[key] = encoded;
+            });
+        }
+        ancestors.delete(v);
+        return out;
+    }
+
+    return walk(value, '$');
+}
+`;
+
+function hexdumpBuffer(data: Buffer): string {
+    const lines: string[] = [];
+    for (let offset = 0; offset < data.length; offset += 16) {
+        const row = data.subarray(offset, offset + 16);
+        const hex = Array.from(row, b => b.toString(16).padStart(2, '0')).join(' ');
+        const ascii = Array.from(row, b => (b >= 0x20 && b < 0x7f ? String.fromCharCode(b) : '.')).join('');
+        lines.push(`${offset.toString(16).padStart(8, '0')}  ${hex.padEnd(47)}  |${ascii}|`);
+    }
+    return lines.join('\n');
+}
+
+class Serializer {
+    static storeBlob(data: Buffer, mimeType: string): string {
+        const id = createHash('sha256').update(data).digest('hex').substring(0, 24);
+        if (!blobs.has(id)) {
+            blobs.set(id, { data, mimeType, createdAt: Date.now() });
+            blobBytes += data.length;
+            for (const [oldId, blob] of blobs) {
+                if (blobBytes <= MAX_BLOB_STORE_BYTES || oldId === id) break;
+                blobs.delete(oldId);
+                blobBytes -= blob.data.length;
+            }
+        }
+        return `frida://blobs/${id}`;
+    }
+
+    static getBlob(id: string): StoredBlob | undefined {
+        return blobs.get(id);
+    }
+
+    static bytes(data: Buffer, encoding: BinaryEncoding = 'base64') {
+        const encode = (chunk: Buffer) => encoding === 'hexdump' ? hexdumpBuffer(chunk) : chunk.toString('base64');
+        if (data.length <= MAX_INLINE_BYTES) {
+            return { $type: 'bytes', length: data.length, encoding, data: encode(data) };
+        }
+        return {
+            $type: 'bytes',
+            length: data.length,
+            encoding,
+            data: encode(data.subarray(0, BLOB_PREVIEW_BYTES)),
+            truncated: true,
+            resource_uri: this.storeBlob(data, 'application/octet-stream')
+        };
+    }
+
+    // Encode Buffers anywhere in the value, then move the whole value to the blob store if it is still too large
+    static value(value: any, encoding: BinaryEncoding = 'base64'): any {
+        const encoded = this.encodeBuffers(value, encoding);
+        const json = JSON.stringify(encoded);
+        if (json === undefined || json.length <= MAX_INLINE_BYTES) return encoded;
+        return {
+            $type: 'truncated',
+            size: json.length,
+            preview: json.substring(0, BLOB_PREVIEW_BYTES),
+            resource_uri: this.storeBlob(Buffer.from(json), 'application/json')
+        };
+    }
+
+    static message(entry: QueuedMessage, encoding: BinaryEncoding = 'base64') {
+        return {
+            ...entry,
+            message: this.value(entry.message, encoding),
+            data: entry.data ? this.bytes(entry.data, encoding) : null
+        };
+    }
+
+    private static encodeBuffers(value: any, encoding: BinaryEncoding): any {
+        if (value === null || typeof value !== 'object') return value;
+        if (Buffer.isBuffer(value) || value instanceof Uint8Array) return this.bytes(Buffer.from(value), encoding);
+        if (Array.isArray(value)) return value.map(item => this.encodeBuffers(item, encoding));
+        const out: Record<string, any> = {};
+        for (const [key, item] of Object.entries(value)) out[key] = this.encodeBuffers(item, encoding);
+        return out;
+    }
+}
+
+// --- Agent Compilation ---
+// Frida 17 no longer ships the Java/ObjC bridges in the runtime; agents import them as npm packages
+// (frida-java-bridge, frida-objc-bridge) and are bundled with frida.Compiler before injection.
+const AGENT_PROJECT_ROOT = process.env.FRIDA_MCP_AGENT_ROOT || path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..');
+// Inline sources are written below node_modules so that bare imports resolve against the server's dependencies
+const AGENT_BUILD_DIR = path.join(AGENT_PROJECT_ROOT, 'node_modules', '.cache', 'frida-mcp-agents');
+const MAX_COMPILED_BUNDLES = 100;
+const PROJECT_SOURCE_EXTENSIONS = new Set(['.ts', '.js', '.mjs', '.cjs', '.json']);
+// Files and directories hashed per project build (node_modules and dot-directories are skipped)
+const MAX_PROJECT_ENTRIES = 10000;
+
+class CompileError extends Error {
+    readonly code = 'COMPILE_ERROR';
+    constructor(message: string, readonly diagnostics: any[], cause?: unknown) {
+        super(message, cause === undefined ? undefined : { cause });
+        this.name = 'CompileError';
+    }
+}
+
+interface CompileRequest {
+    // Inline agent source, or...
+    source?: string;
+    language?: 'javascript' | 'typescript';
+    // ...an entrypoint inside a project directory on the server host
+    projectRoot?: string;
+    entrypoint?: string;
+    typeCheck?: boolean;
+    compress?: boolean;
+    sourceMaps?: boolean;
+}
+
+interface CompiledAgent {
+    bundle: string;
+    hash: string;
+    cached: boolean;
+    compile_ms: number;
+    diagnostics: any[];
+}
+
+// Compiled bundles keyed by content hash; a pending compile is shared by concurrent callers
+const compiledBundles = new Map<string, Promise<{ bundle: string; diagnostics: any[] }>>();
+
+class AgentCompiler {
+    static async compile(request: CompileRequest): Promise<CompiledAgent> {
+        const started = Date.now();
+        const { entry, projectRoot, hash } = await this.prepare(request);
+
+        let pending = compiledBundles.get(hash);
+        const cached = pending !== undefined;
+        if (!pending) {
+            pending = this.build(entry, projectRoot, request);
+            compiledBundles.set(hash, pending);
+            pending.catch(() => compiledBundles.delete(hash));
+            if (compiledBundles.size > MAX_COMPILED_BUNDLES) {
+                compiledBundles.delete(compiledBundles.keys().next().value!);
+            }
+        }
+
+        const { bundle, diagnostics } = await pending;
+        return { bundle, hash, cached, compile_ms: Date.now() - started, diagnostics };
+    }
+
+    private static async prepare(request: CompileRequest) {
+        const options = JSON.stringify([request.typeCheck ?? false, request.compress ?? false, request.sourceMaps ?? false]);
+
+        if (request.source !== undefined) {
+            const extension = request.language === 'typescript' ? '.ts' : '.js';
+            const hash = createHash('sha256').update(extension).update(options).update(request.source).digest('hex');
+            const entry = path.join(AGENT_BUILD_DIR, `${hash.substring(0, 16)}${extension}`);
+            await mkdir(AGENT_BUILD_DIR, { recursive: true });
+            await writeFile(entry, request.source);
+            return { entry, projectRoot: AGENT_BUILD_DIR, hash };
+        }
+
+        if (!request.projectRoot) throw new ToolError('INVALID_ARGUMENT', "Either source or project_root is required");
+        const projectRoot = path.resolve(request.projectRoot);
+        const entry = path.resolve(projectRoot, request.entrypoint ?? 'index.ts');
+
+        // Hash every source file in the project so edits anywhere invalidate the bundle
+        const digest = createHash('sha256').update(options).update(entry);
+        for (const file of await this.projectFiles(projectRoot, projectRoot, { left: MAX_PROJECT_ENTRIES })) {
+            digest.update(path.relative(projectRoot, file)).update(await readFile(file));
+        }
+        return { entry, projectRoot, hash: digest.digest('hex') };
+    }
+
+    // Nearest directory above a file with a package.json or node_modules: the default project root of a compiled script
+    static projectRootOf(file: string): string {
+        for (let dir = path.dirname(file); ; dir = path.dirname(dir)) {
+            if (existsSync(path.join(dir, 'package.json')) || existsSync(path.join(dir, 'node_modules'))) return dir;
+            if (path.dirname(dir) === dir) {
+                throw new ToolError('INVALID_ARGUMENT', `No package.json or node_modules found above ${file}; pass project_root`);
+            }
+        }
+    }
+
+    private static async projectFiles(root: string, dir: string, budget: { left: number }): Promise<string[]> {
+        const files: string[] = [];
+        const entries = await readdir(dir, { withFileTypes: true });
+        entries.sort((a, b) => a.name.localeCompare(b.name));
+        for (const entry of entries) {
+            if (entry.name.startsWith('.') || entry.name === 'node_modules') continue;
+            if (--budget.left < 0) {
+                throw new ToolError('INVALID_ARGUMENT', `Project ${root} has more than ${MAX_PROJECT_ENTRIES} files and directories; pass a narrower project_root`);
+            }
+            const full = path.join(dir, entry.name);
+            if (entry.isDirectory()) files.push(...await this.projectFiles(root, full, budget));
+            else if (PROJECT_SOURCE_EXTENSIONS.has(path.extname(entry.name))) files.push(full);
+        }
+        return files;
+    }
+
+    private static async build(entry: string, projectRoot: string, request: CompileRequest) {
+        const compiler = new frida.Compiler();
+        const diagnostics: any[] = [];
+        compiler.diagnostics.connect(d => diagnostics.push(...(Array.isArray(d) ? d : [d])));
+
+        // frida-node types BuildOptions as empty, but it accepts the CompilerOptions fields
+        const options = {
+            projectRoot,
+            typeCheck: request.typeCheck ? 'full' as TypeCheckMode : 'none' as TypeCheckMode,
+            compression: request.compress ? 'terser' as JsCompression : 'none' as JsCompression,
+            sourceMaps: request.sourceMaps ? 'included' as SourceMaps : 'omitted' as SourceMaps
+        } as BuildOptions;
+
+        try {
+            const bundle = await compiler.build(entry, options);
+            return { bundle, diagnostics };
+        } catch (e: any) {
+            throw new CompileError(`Compilation of ${entry} failed: ${e.message ?? e}`, diagnostics, e);
+        }
+    }
+}
+
+// --- Script Cache ---
+// execute_in_session injects a fixed wrapper (plus any registered libraries) and posts the user code to it,
+// so the expensive part of script creation can be done once per device, realm, architecture and runtime:
+// QuickJS gets bytecode from session.compileScript, V8 gets a heap snapshot from session.snapshotScript.
+const MAX_CACHED_SCRIPTS = 200;
+
+const EXECUTE_PRELUDE_SOURCE = `
+${SERIALIZER_AGENT_SOURCE}
+
+globalThis.__mcpExecute = function (code, binary) {
+    var logs = [];
+    var originalLog = console.log;
+    console.log = function() {
+        var args = Array.prototype.slice.call(arguments);
+        var logMsg = args.map(arg => typeof arg === 'object' ? JSON.stringify(__mcpSerialize(arg, binary)) : String(arg)).join(' ');
+        logs.push(logMsg);
+        originalLog.apply(console, arguments);
+    };
+
+    var result;
+    var error;
+    try {
+        result = eval(code);
+    } catch(e) {
+        error = { message: e.toString(), stack: e.stack };
+    }
+
+    console.log = originalLog;
+    send({ type: 'execution_receipt', result: __mcpSerialize(result, binary), error: error, logs: logs });
+};
+`;
+
+const EXECUTE_ENTRY_SOURCE = `
+recv('execute', function (message) {
+    __mcpExecute(message.code, message.binary);
+});
+`;
+
+type ScriptCacheStatus = 'hit' | 'miss' | 'unsupported';
+
+interface CachedScript {
+    script: Script;
+    cache: ScriptCacheStatus;
+    create_ms: number;
+}
+
+// Bytecode / snapshots keyed by device, realm, process architecture, runtime and source hash;
+// null marks a runtime that refused to produce one
+const cachedScripts = new Map<string, Promise<Buffer | null>>();
+
+interface ScriptLibrary {
+    source: string;
+    registeredAt: number;
+}
+
+// Reusable code registered with register_script_library, preloaded into execute_in_session scripts on request.
+// Keyed by client, so one client can neither replace nor inject another client's libraries.
+const scriptLibraries = new Map<string, Map<string, ScriptLibrary>>();
+
+class ScriptCache {
+    // The calling client's libraries
+    static libraries(): Map<string, ScriptLibrary> {
+        const client = clientContext.getStore()?.id ?? '';
+        let libraries = scriptLibraries.get(client);
+        if (!libraries) {
+            libraries = new Map();
+            scriptLibraries.set(client, libraries);
+        }
+        return libraries;
+    }
 
-        // Detach handler
-        session.detached.connect((reason) => {
-            console.error(`Session ${sessionId} detached: ${reason}`);
-            sessions.delete(sessionId);
+    static forgetClient(clientId: string) {
+        scriptLibraries.delete(clientId);
+    }
+
+    static prelude(libraries: string[] = []): string {
+        const registered = this.libraries();
+        const parts = libraries.map(name => {
+            const library = registered.get(name);
+            if (!library) throw new ToolError('NOT_FOUND', `Script library ${name} is not registered`);
+            return `// library: ${name}\n${library.source}`;
         });
+        return [...parts, EXECUTE_PRELUDE_SOURCE].join('\n;\n');
+    }
 
-        return sessionId;
+    // Create an execution script for the session, reusing cached bytecode or a snapshot of the prelude
+    static createExecutionScript(activeSession: ActiveSession, runtime: ScriptRuntime, libraries: string[] = []): Promise<CachedScript> {
+        return this.create(activeSession, runtime, this.prelude(libraries), EXECUTE_ENTRY_SOURCE);
     }
 
-    static get(sessionId: string): ActiveSession | undefined {
-        return sessions.get(sessionId);
+    // Create a helper agent script. The agent is wrapped in a function so the snapshot only holds its
+    // definition and the agent itself starts on load. Bundles are ES modules and can't be wrapped.
+    static async createAgentScript(activeSession: ActiveSession, source: string, bundled: boolean): Promise<CachedScript> {
+        const runtime = 'v8' as ScriptRuntime;
+        if (bundled) {
+            const started = Date.now();
+            const script = await activeSession.session.createScript(source, { runtime });
+            return { script, cache: 'unsupported', create_ms: Date.now() - started };
+        }
+        return this.create(activeSession, runtime, `globalThis.__mcpAgent = function () {\n${source}\n};`, '__mcpAgent();');
     }
 
-    static async execute(sessionId: string, code: string, keepAlive: boolean): Promise<any> {
-        const activeSession = this.get(sessionId);
-        if (!activeSession) throw new Error(`Session ${sessionId} not found`);
+    // Create a script from a cacheable prelude plus a small entry source that runs on load
+    private static async create(activeSession: ActiveSession, runtime: ScriptRuntime, prelude: string, entry: string): Promise<CachedScript> {
+        const started = Date.now();
+        const { session } = activeSession;
+        // Bytecode and heap snapshots are only valid for the realm and architecture they were made in
+        const realm = activeSession.options.realm ?? 'native';
+        const arch = await this.processArch(activeSession);
+
+        const lookup = (kind: string, produce: () => Promise<Buffer>) => {
+            const key = [activeSession.device.id, realm, arch, runtime, kind, createHash('sha256').update(prelude).digest('hex')].join('|');
+            let pending = cachedScripts.get(key);
+            const hit = pending !== undefined;
+            if (!pending) {
+                pending = produce().catch(err => {
+                    console.error(`Script cache: ${kind} unavailable for ${runtime} on ${activeSession.device.id}: ${err}`);
+                    return null;
+                });
+                cachedScripts.set(key, pending);
+                if (cachedScripts.size > MAX_CACHED_SCRIPTS) cachedScripts.delete(cachedScripts.keys().next().value!);
+            }
+            return pending.then(bytes => ({ bytes, hit }));
+        };
+
+        let script: Script;
+        let cache: ScriptCacheStatus;
+        if (runtime === 'qjs') {
+            const { bytes, hit } = await lookup('bytecode', () =>
+                session.compileScript(`${prelude}\n;\n${entry}`, { runtime }));
+            script = bytes
+                ? await session.createScriptFromBytes(bytes, { runtime })
+                : await session.createScript(`${prelude}\n;\n${entry}`, { runtime });
+            cache = bytes ? (hit ? 'hit' : 'miss') : 'unsupported';
+        } else {
+            const { bytes, hit } = await lookup('snapshot', () => session.snapshotScript(prelude, { runtime }));
+            script = bytes
+                ? await session.createScript(entry, { runtime, snapshot: bytes })
+                : await session.createScript(`${prelude}\n;\n${entry}`, { runtime });
+            cache = bytes ? (hit ? 'hit' : 'miss') : 'unsupported';
+        }
+
+        return { script, cache, create_ms: Date.now() - started };
+    }
+
+    // Architecture of the attached process (a 32-bit app on a 64-bit device differs from the device), probed once per attach
+    private static processArch(activeSession: ActiveSession): Promise<string> {
+        if (!activeSession.arch) {
+            const { session } = activeSession;
+            const probe = (async () => {
+                const script = await session.createScript('rpc.exports = { arch: () => Process.arch };', { runtime: 'qjs' as ScriptRuntime });
+                await script.load();
+                try {
+                    return await script.exports.arch() as string;
+                } finally {
+                    script.unload().catch(() => { });
+                }
+            })();
+            activeSession.arch = probe;
+            probe.catch(() => {
+                if (activeSession.arch === probe) activeSession.arch = undefined;
+            });
+        }
+        return activeSession.arch;
+    }
+
+    static stats() {
+        return { entries: cachedScripts.size, capacity: MAX_CACHED_SCRIPTS };
+    }
+}
+
+// --- Session Management ---
+// The client on whose behalf the current tool call runs. Sessions are only visible to the client
+// that created them unless they are shared; background work (no client) sees everything.
+interface ClientContext {
+    id: string;
+    server: McpServer;
+}
+
+const clientContext = new AsyncLocalStorage<ClientContext>();
+const SHARE_SESSIONS_BY_DEFAULT = process.argv.includes('--shared-sessions') || process.env.FRIDA_MCP_SHARED_SESSIONS === '1';
+
+// Device lookup shared by every tool: an explicit ID, or the first USB device
+async function resolveDevice(deviceId?: string): Promise<Device> {
+    let device: Device;
+    try {
+        device = deviceId ? await frida.getDevice(deviceId) : await frida.getUsbDevice();
+    } catch (e: any) {
+        // Only a lookup that found nothing is DEVICE_NOT_FOUND; timeouts and transport failures keep their own code
+        const code = classifyError(e);
+        if (code !== 'DEVICE_NOT_FOUND' && code !== 'NOT_FOUND') {
+            throw new ToolError(code, deviceId ? `Looking up device ${deviceId} failed: ${e.message}` : `Looking up the USB device failed: ${e.message}`, e);
+        }
+        throw new ToolError('DEVICE_NOT_FOUND', deviceId ? `Device ${deviceId} not found: ${e.message}` : `No USB device found: ${e.message}`, e);
+    }
+    PolicyEngine.assertDevice(device.id);
+    return device;
+}
 
-        // Wrapper to capture console.log and return logic
-        const wrappedCode = `
-        (function() {
+interface ExecuteOptions {
+    runtime?: ScriptRuntime;
+    libraries?: string[];
+    binaryEncoding?: BinaryEncoding;
+}
+
+interface ManagedScript {
+    id: string;
+    script: Script;
+    source: string;
+    // 'code' sources run inside the execution wrapper; 'bundle' sources are frida.Compiler output loaded as-is
+    kind: 'code' | 'bundle';
+    // How 'code' scripts were executed, so reloads and re-attaches recreate them the same way
+    executeOptions?: ExecuteOptions;
+    // Set for scripts loaded with load_script_file, so reloads read the file again
+    file?: ScriptFileSpec;
+    // Set for scripts started with run_recipe (name@version)
+    recipe?: string;
+    createdAt: number;
+}
+
+interface SessionCreateOptions {
+    queueCapacity?: number;
+    // Seconds frida-server keeps the session alive across a lost connection
+    persistTimeout?: number;
+    realm?: 'native' | 'emulated';
+    // Re-attach (and re-inject kept-alive scripts) when the process is replaced or restarted
+    autoReattach?: boolean;
+    reattachTimeoutMs?: number;
+    // Visible to every connected client instead of only the one that created it (HTTP transport)
+    shared?: boolean;
+}
+
+// Instrumentation installed through a helper agent (hook_function, start_trace, start_coverage),
+// recorded so a reattach can install it again in the new process
+interface AgentInstall {
+    kind: 'hook' | 'trace' | 'coverage';
+    id: string;
+    agent: string;
+    source: string;
+    method: string;
+    args: any[];
+}
+
+interface ActiveSession {
+    session: Session;
+    device: Device;
+    pid: number;
+    processName: string | null;
+    options: SessionCreateOptions;
+    state: 'attached' | 'interrupted' | 'reattaching';
+    reattachCount: number;
+    scripts: Map<string, ManagedScript>;
+    messageQueue: MessageBuffer;
+    id: string;
+    createdAt: number;
+    // Server-managed helper agents (REPL, explorer, ...), loaded lazily by name
+    agents: Map<string, Promise<Script>>;
+    // How long each helper agent took to inject, and whether it came from the script cache
+    agentTiming: Map<string, { cache: ScriptCacheStatus; create_ms: number; load_ms: number }>;
+    // Live agent instrumentation keyed by `<kind>/<id>`
+    installs: Map<string, AgentInstall>;
+    // Process architecture for the script cache key, probed on first use
+    arch?: Promise<string>;
+    // Client that created the session, or that enabled the gating which auto-attached it; undefined outside any client
+    owner?: string;
+}
+
+// Helper agents that import a bridge package and have to be bundled with AgentCompiler first
+const COMPILED_AGENTS = new Set(['tracer']);
+
+// Long-lived agent backing REPL mode. Code is run through indirect eval so `var` and
+// function declarations land on the shared global object and survive between calls.
+const REPL_AGENT_SOURCE = `
+(function() {
+    var baseline = Object.getOwnPropertyNames(globalThis);
+    ${SERIALIZER_AGENT_SOURCE}
+
+    rpc.exports = {
+        evaluate: function(code, binary) {
             var logs = [];
             var originalLog = console.log;
             console.log = function() {
                 var args = Array.prototype.slice.call(arguments);
-                var logMsg = args.map(arg => typeof arg === 'object' ? JSON.stringify(arg) : String(arg)).join(' ');
+                var logMsg = args.map(arg => typeof arg === 'object' ? JSON.stringify(__mcpSerialize(arg, binary)) : String(arg)).join(' ');
                 logs.push(logMsg);
                 originalLog.apply(console, arguments);
             };
@@ -60,397 +859,4210 @@ class SessionManager {
             var result;
             var error;
             try {
-                result = eval(${JSON.stringify(code)});
+                result = (0, eval)(code);
             } catch(e) {
                 error = { message: e.toString(), stack: e.stack };
             }
 
             console.log = originalLog;
-            send({ type: 'execution_receipt', result: result, error: error, logs: logs });
-        })();
-        `;
+            return { result: __mcpSerialize(result, binary), error: error, logs: logs };
+        },
+        globals: function() {
+            return Object.getOwnPropertyNames(globalThis)
+                .filter(name => baseline.indexOf(name) === -1)
+                .map(name => ({ name: name, type: typeof globalThis[name] }));
+        }
+    };
+})();
+`;
 
-        // CRITICAL FIX: explicitly use 'v8' runtime
-        const script = await activeSession.session.createScript(wrappedCode, { runtime: 'v8' as ScriptRuntime });
+// Helper agent behind the module/export/import/symbol explorer tools.
+// Filters and pagination run in the target so only the requested page crosses the wire.
+const EXPLORER_AGENT_SOURCE = `
+(function() {
+    function matcher(filter) {
+        if (!filter) return function() { return true; };
+        if (/[*?]/.test(filter)) {
+            var re = new RegExp('^' + filter.replace(/[.+^$\{}()|[\\]\\\\]/g, '\\\\$&').replace(/\\*/g, '.*').replace(/\\?/g, '.') + '$', 'i');
+            return function(name) { return re.test(name); };
+        }
+        var needle = filter.toLowerCase();
+        return function(name) { return name.toLowerCase().indexOf(needle) !== -1; };
+    }
 
-        return new Promise((resolve, reject) => {
-            let handled = false;
+    function page(items, offset, limit) {
+        return { total: items.length, offset: offset, limit: limit, items: items.slice(offset, offset + limit) };
+    }
 
-            const onMessage = (message: any, data: Buffer | null) => {
-                if (message.type === 'send') {
-                    const payload = message.payload;
-                    if (payload.type === 'execution_receipt') {
-                        if (!handled) {
-                            handled = true;
-                            if (keepAlive) {
-                                // Keep script alive for further hooks
-                                const scriptId = Math.random().toString(36).substring(7);
-                                activeSession.scripts.set(scriptId, script);
-                                // Re-bind message handler for persistent logging to queue
-                                script.message.disconnect(onMessage);
-                                script.message.connect((msg, d) => {
-                                    activeSession.messageQueue.push({ message: msg, data: d });
-                                });
-                            } else {
-                                script.unload();
-                            }
+    function describe(address) {
+        var symbol = DebugSymbol.fromAddress(address);
+        var module = Process.findModuleByAddress(address);
+        return {
+            address: address.toString(),
+            name: symbol.name,
+            module: module ? module.name : symbol.moduleName,
+            offset: module ? '0x' + address.sub(module.base).toString(16) : null,
+            file_name: symbol.fileName || null,
+            line_number: symbol.lineNumber || null
+        };
+    }
 
-                            resolve({
-                                status: payload.error ? 'error' : 'success',
-                                result: payload.result,
-                                error: payload.error,
-                                logs: payload.logs
-                            });
-                        }
-                    } else if (keepAlive) {
-                        activeSession.messageQueue.push({ message, data });
-                    }
-                } else if (message.type === 'error') {
-                    if (!handled) {
-                        handled = true;
-                        resolve({ status: 'error', error: message.description, details: message });
-                    }
+    rpc.exports = {
+        modules: function(filter, offset, limit) {
+            var match = matcher(filter);
+            var items = Process.enumerateModules()
+                .filter(m => match(m.name))
+                .map(m => ({ name: m.name, base: m.base.toString(), size: m.size, path: m.path }));
+            return page(items, offset, limit);
+        },
+        exports: function(moduleName, filter, type, offset, limit) {
+            var match = matcher(filter);
+            var items = Process.getModuleByName(moduleName).enumerateExports()
+                .filter(e => match(e.name) && (!type || e.type === type))
+                .map(e => ({ name: e.name, type: e.type, address: e.address.toString() }));
+            return page(items, offset, limit);
+        },
+        imports: function(moduleName, filter, type, offset, limit) {
+            var match = matcher(filter);
+            var items = Process.getModuleByName(moduleName).enumerateImports()
+                .filter(i => match(i.name) && (!type || i.type === type))
+                .map(i => ({
+                    name: i.name,
+                    type: i.type || null,
+                    module: i.module || null,
+                    address: i.address ? i.address.toString() : null,
+                    slot: i.slot ? i.slot.toString() : null
+                }));
+            return page(items, offset, limit);
+        },
+        symbols: function(moduleName, filter, type, offset, limit) {
+            var match = matcher(filter);
+            var items = Process.getModuleByName(moduleName).enumerateSymbols()
+                .filter(s => match(s.name) && (!type || s.type === type))
+                .map(s => ({
+                    name: s.name,
+                    type: s.type,
+                    is_global: s.isGlobal,
+                    address: s.address.toString(),
+                    size: s.size === undefined ? null : s.size
+                }));
+            return page(items, offset, limit);
+        },
+        resolve: function(query) {
+            if (/^0x[0-9a-f]+$/i.test(query)) return describe(ptr(query));
+
+            var address = null;
+            var bang = query.indexOf('!');
+            if (bang !== -1) {
+                var module = Process.getModuleByName(query.substring(0, bang));
+                var name = query.substring(bang + 1);
+                address = module.findExportByName(name) || module.findSymbolByName(name);
+            } else {
+                address = Module.findGlobalExportByName(query);
+                if (address === null) {
+                    var symbol = DebugSymbol.fromName(query);
+                    if (!symbol.address.isNull()) address = symbol.address;
                 }
-            };
+            }
+            if (address === null) throw new Error('Symbol not found: ' + query);
+            return describe(address);
+        }
+    };
+})();
+`;
 
-            script.message.connect(onMessage);
-            script.load().catch(err => {
-                if (!handled) reject(err);
-            });
-        });
+// Upper bound for a single read_memory call, to keep responses within a model's context
+const MAX_MEMORY_READ = 64 * 1024;
+
+// Helper agent behind the memory tools. Reads in base64 mode return an ArrayBuffer,
+// which arrives on the server as a Buffer instead of going through JSON.
+const MEMORY_AGENT_SOURCE = `
+(function() {
+    var readers = {
+        u8: [1, p => p.readU8()],
+        s8: [1, p => p.readS8()],
+        u16: [2, p => p.readU16()],
+        s16: [2, p => p.readS16()],
+        u32: [4, p => p.readU32()],
+        s32: [4, p => p.readS32()],
+        u64: [8, p => p.readU64().toString()],
+        s64: [8, p => p.readS64().toString()],
+        float: [4, p => p.readFloat()],
+        double: [8, p => p.readDouble()],
+        pointer: [Process.pointerSize, p => p.readPointer().toString()]
+    };
+
+    var writers = {
+        u8: (p, v) => p.writeU8(Number(v)),
+        s8: (p, v) => p.writeS8(Number(v)),
+        u16: (p, v) => p.writeU16(Number(v)),
+        s16: (p, v) => p.writeS16(Number(v)),
+        u32: (p, v) => p.writeU32(Number(v)),
+        s32: (p, v) => p.writeS32(Number(v)),
+        u64: (p, v) => p.writeU64(uint64(String(v))),
+        s64: (p, v) => p.writeS64(int64(String(v))),
+        float: (p, v) => p.writeFloat(Number(v)),
+        double: (p, v) => p.writeDouble(Number(v)),
+        pointer: (p, v) => p.writePointer(ptr(String(v))),
+        utf8: (p, v) => p.writeUtf8String(String(v)),
+        utf16: (p, v) => p.writeUtf16String(String(v))
+    };
+
+    function hexToBytes(hex) {
+        var clean = hex.replace(/[^0-9a-fA-F]/g, '');
+        if (clean.length % 2 !== 0) throw new Error('Hex data must have an even number of digits');
+        var bytes = [];
+        for (var i = 0; i < clean.length; i += 2) bytes.push(parseInt(clean.substr(i, 2), 16));
+        return bytes;
+    }
+
+    function describeRange(r) {
+        var module = Process.findModuleByAddress(r.base);
+        return {
+            base: r.base.toString(),
+            size: r.size,
+            protection: r.protection,
+            module: module ? module.name : null,
+            file: r.file ? { path: r.file.path, offset: r.file.offset } : null
+        };
+    }
+
+    // Exact encoded size of a NUL-terminated UTF-8 string; lone surrogates become U+FFFD
+    function utf8Size(text) {
+        var size = 1;
+        for (var i = 0; i < text.length; i++) {
+            var c = text.charCodeAt(i);
+            if (c < 0x80) {
+                size += 1;
+            } else if (c < 0x800) {
+                size += 2;
+            } else if (c >= 0xd800 && c < 0xdc00 && i + 1 < text.length && (text.charCodeAt(i + 1) & 0xfc00) === 0xdc00) {
+                size += 4;
+                i++;
+            } else {
+                size += 3;
+            }
+        }
+        return size;
+    }
+
+    // Every page touched by [address, address + size), with its current mapping
+    function pagesOf(address, size) {
+        var pageSize = Process.pageSize;
+        var start = address.and(ptr(pageSize - 1).not());
+        var end = address.add(size + pageSize - 1).and(ptr(pageSize - 1).not());
+        var pages = [];
+        for (var page = start; page.compare(end) < 0; page = page.add(pageSize)) {
+            var range = Process.findRangeByAddress(page);
+            if (range === null) throw new Error('Address ' + page + ' is not mapped');
+            pages.push([page, range.protection]);
+        }
+        return pages;
+    }
+
+    // Temporarily add write permission to the pages that lack it
+    function withWritable(pages, fn) {
+        var pageSize = Process.pageSize;
+        var restore = pages.filter(entry => entry[1].indexOf('w') === -1);
+        restore.forEach(entry => Memory.protect(entry[0], pageSize, entry[1].substring(0, 1) + 'w' + entry[1].substring(2)));
+        try {
+            fn();
+        } finally {
+            restore.forEach(entry => Memory.protect(entry[0], pageSize, entry[1]));
+        }
+        return restore.length;
+    }
+
+    rpc.exports = {
+        read: function(address, size, format, type, count) {
+            var p = ptr(address);
+            if (format === 'hexdump') return hexdump(p, { length: size, header: true, ansi: false });
+            if (format === 'base64') return p.readByteArray(size);
+
+            if (type === 'utf8') return p.readUtf8String(size > 0 ? size : -1);
+            if (type === 'utf16') return p.readUtf16String(size > 0 ? size / 2 : -1);
+            var reader = readers[type];
+            if (!reader) throw new Error('Unknown type: ' + type);
+            var values = [];
+            for (var i = 0; i < count; i++) values.push(reader[1](p.add(i * reader[0])));
+            return values;
+        },
+        write: function(address, hex, type, value, makeWritable) {
+            var p = ptr(address);
+            var size;
+            var write;
+            if (hex !== null) {
+                var bytes = hexToBytes(hex);
+                size = bytes.length;
+                write = target => target.writeByteArray(bytes);
+            } else {
+                var writer = writers[type];
+                if (!writer) throw new Error('Unknown type: ' + type);
+                if (readers[type]) size = readers[type][0];
+                else if (type === 'utf16') size = (String(value).length + 1) * 2;
+                else size = utf8Size(String(value));
+                write = target => writer(target, value);
+            }
+            if (!makeWritable) {
+                write(p);
+                return { address: p.toString(), size: size, pages_reprotected: 0, code_patched: false };
+            }
+            // Code pages go through patchCode, which also works where W^X forbids
+            // making them writable (e.g. iOS) and flushes the instruction cache
+            var pages = pagesOf(p, size);
+            if (pages.some(entry => entry[1].indexOf('x') !== -1)) {
+                Memory.patchCode(p, size, code => write(code));
+                return { address: p.toString(), size: size, pages_reprotected: 0, code_patched: true };
+            }
+            var reprotected = withWritable(pages, () => write(p));
+            return { address: p.toString(), size: size, pages_reprotected: reprotected, code_patched: false };
+        },
+        scan: function(pattern, protection, address, size, maxMatches) {
+            var ranges = address !== null
+                ? [{ base: ptr(address), size: size }]
+                : Process.enumerateRanges({ protection: protection, coalesce: true });
+            var matches = [];
+            var scanned = 0;
+            var errors = 0;
+            for (var i = 0; i < ranges.length && matches.length < maxMatches; i++) {
+                try {
+                    var found = Memory.scanSync(ranges[i].base, ranges[i].size, pattern);
+                    scanned++;
+                    for (var j = 0; j < found.length && matches.length < maxMatches; j++) {
+                        var module = Process.findModuleByAddress(found[j].address);
+                        matches.push({
+                            address: found[j].address.toString(),
+                            size: found[j].size,
+                            module: module ? module.name : null,
+                            offset: module ? '0x' + found[j].address.sub(module.base).toString(16) : null
+                        });
+                    }
+                } catch (e) {
+                    errors++;
+                }
+            }
+            return { matches: matches, truncated: matches.length >= maxMatches, ranges_scanned: scanned, ranges_failed: errors };
+        },
+        ranges: function(protection, coalesce, moduleName, offset, limit) {
+            var source = moduleName !== null
+                ? Process.getModuleByName(moduleName).enumerateRanges(protection)
+                : Process.enumerateRanges({ protection: protection, coalesce: coalesce });
+            var items = source.map(describeRange);
+            return { total: items.length, offset: offset, limit: limit, items: items.slice(offset, offset + limit) };
+        }
+    };
+})();
+`;
+
+// Helper agent behind hook_function. Each call of a hooked target produces one
+// 'hook_event' message (sent on leave) carrying the decoded args and return value.
+const HOOKS_AGENT_SOURCE = `
+(function() {
+    var hooks = new Map();
+
+    function decode(value, spec) {
+        try {
+            switch (spec.type) {
+                case 'int': return value.toInt32();
+                case 'uint': return value.toUInt32();
+                case 'long': return int64(value.toString()).toString();
+                case 'bool': return value.toInt32() !== 0;
+                case 'utf8': return value.isNull() ? null : value.readUtf8String(spec.length || -1);
+                case 'utf16': return value.isNull() ? null : value.readUtf16String(spec.length || -1);
+                case 'bytes': return value.isNull() ? null : hexdump(value, { length: spec.length || 64, header: false, ansi: false });
+                default: return value.toString();
+            }
+        } catch (e) {
+            return { error: e.toString(), raw: value.toString() };
+        }
+    }
+
+    function resolveTargets(target, maxTargets) {
+        if (/^0x[0-9a-f]+$/i.test(target)) {
+            var address = ptr(target);
+            return [{ name: DebugSymbol.fromAddress(address).toString(), address: address }];
+        }
+        if (/[*?]/.test(target)) {
+            var query = /^(exports|imports|sections):/.test(target)
+                ? target
+                : 'exports:' + (target.indexOf('!') === -1 ? '*!' + target : target);
+            return new ApiResolver('module').enumerateMatches(query).slice(0, maxTargets);
+        }
+        var bang = target.indexOf('!');
+        if (bang !== -1) {
+            var name = target.substring(bang + 1);
+            return [{ name: target, address: Process.getModuleByName(target.substring(0, bang)).getExportByName(name) }];
+        }
+        return [{ name: target, address: Module.getGlobalExportByName(target) }];
+    }
+
+    function install(id, spec) {
+        var argSpecs = spec.args || [];
+        var targets = resolveTargets(spec.target, spec.maxTargets);
+        if (targets.length === 0) throw new Error('No functions match ' + spec.target);
+
+        var listeners = [];
+        var attach = function(t) {
+            return Interceptor.attach(t.address, {
+                onEnter: function(args) {
+                    this.rawArgs = argSpecs.map(a => args[a.index]);
+                    this.args = argSpecs.map((a, i) => a.read_on_leave ? undefined : decode(this.rawArgs[i], a));
+                    this.backtrace = spec.backtrace
+                        ? Thread.backtrace(this.context, Backtracer.ACCURATE).map(DebugSymbol.fromAddress).map(String)
+                        : undefined;
+                    this.enteredAt = Date.now();
+                },
+                onLeave: function(retval) {
+                    var decoded = {};
+                    argSpecs.forEach((a, i) => {
+                        decoded[a.name || ('arg' + a.index)] = a.read_on_leave ? decode(this.rawArgs[i], a) : this.args[i];
+                    });
+                    send({
+                        type: 'hook_event',
+                        hook_id: id,
+                        function: t.name,
+                        address: t.address.toString(),
+                        thread_id: this.threadId,
+                        depth: this.depth,
+                        timestamp: this.enteredAt,
+                        duration_ms: Date.now() - this.enteredAt,
+                        args: decoded,
+                        retval: spec.retval ? decode(retval, spec.retval) : undefined,
+                        backtrace: this.backtrace
+                    });
+                }
+            });
+        };
+        try {
+            targets.forEach(t => listeners.push(attach(t)));
+        } catch (e) {
+            // Don't leave a half-installed hook behind
+            listeners.forEach(l => l.detach());
+            throw e;
+        }
+
+        hooks.set(id, {
+            spec: spec,
+            listeners: listeners,
+            targets: targets.map(t => ({ name: t.name, address: t.address.toString() }))
+        });
+        return hooks.get(id).targets;
+    }
+
+    rpc.exports = {
+        add: function(id, spec) {
+            if (hooks.has(id)) throw new Error('Hook ' + id + ' already exists');
+            return install(id, spec);
+        },
+        remove: function(id) {
+            var hook = hooks.get(id);
+            if (!hook) throw new Error('Hook ' + id + ' not found');
+            hook.listeners.forEach(l => l.detach());
+            hooks.delete(id);
+            Interceptor.flush();
+        },
+        list: function() {
+            return Array.from(hooks.entries()).map(entry => ({
+                hook_id: entry[0],
+                target: entry[1].spec.target,
+                targets: entry[1].targets
+            }));
+        }
+    };
+})();
+`;
+
+// Helper agent behind start_trace / stop_trace. In 'calls' mode each thread's enter/leave
+// events are rendered as an indented call tree and flushed in 'trace_events' batches;
+// in 'summary' mode only per-function hit counts are kept and nothing is queued.
+// It imports the Java bridge for java: patterns, so it is bundled before injection (see COMPILED_AGENTS).
+const TRACER_AGENT_SOURCE = `
+import Java from "frida-java-bridge";
+
+(function() {
+    var traces = new Map();
+    var FLUSH_INTERVAL_MS = 250;
+
+    function globMatcher(pattern) {
+        var re = new RegExp('^' + pattern.replace(/[.+^$\{}()|[\\]\\\\]/g, '\\\\$&').replace(/\\*/g, '.*').replace(/\\?/g, '.') + '$', 'i');
+        return function(name) { return re.test(name); };
+    }
+
+    // Resolve one include pattern into [{ kind, name, address | (loader, className, method) }]
+    function resolve(pattern) {
+        if (pattern.indexOf('java:') === 0) {
+            if (!Java.available) throw new Error('Java bridge not available for ' + pattern);
+            var found = [];
+            Java.performNow(function() {
+                Java.enumerateMethods(pattern.substring(5)).forEach(function(group) {
+                    group.classes.forEach(function(klass) {
+                        klass.methods.forEach(function(method) {
+                            found.push({ kind: 'java', name: klass.name + '.' + method, loader: group.loader, className: klass.name, method: method });
+                        });
+                    });
+                });
+            });
+            return found;
+        }
+
+        var type = 'module';
+        var query = pattern;
+        if (pattern.indexOf('objc:') === 0) { type = 'objc'; query = pattern.substring(5); }
+        else if (pattern.indexOf('swift:') === 0) { type = 'swift'; query = pattern.substring(6); }
+        else if (/^[-+]\\[/.test(pattern)) { type = 'objc'; }
+        else if (!/^(exports|imports|sections):/.test(pattern)) {
+            query = 'exports:' + (pattern.indexOf('!') === -1 ? '*!' + pattern : pattern);
+        }
+        return new ApiResolver(type).enumerateMatches(query).map(m => ({ kind: 'native', name: m.name, address: m.address }));
+    }
+
+    function record(trace, threadId, line) {
+        if (!trace.threads[threadId]) trace.threads[threadId] = [];
+        trace.threads[threadId].push(line);
+        trace.pending++;
+    }
+
+    function flush(trace) {
+        if (trace.pending === 0) return;
+        send({ type: 'trace_events', trace_id: trace.id, threads: trace.threads });
+        trace.threads = {};
+        trace.pending = 0;
+    }
+
+    function indent(depth) {
+        var pad = '';
+        for (var i = 0; i < depth; i++) pad += '   | ';
+        return pad;
+    }
+
+    function onEnter(trace, target, threadId, depth) {
+        trace.hits[target.name] = (trace.hits[target.name] || 0) + 1;
+        if (trace.mode === 'calls') record(trace, threadId, (Date.now() - trace.startedAt) + ' ms ' + indent(depth) + target.name + '()');
+    }
+
+    function onLeave(trace, target, threadId, depth, retval) {
+        if (trace.mode === 'calls') record(trace, threadId, (Date.now() - trace.startedAt) + ' ms ' + indent(depth) + '<= ' + retval);
+    }
+
+    function instrumentNative(trace, target) {
+        return Interceptor.attach(target.address, {
+            onEnter: function() { onEnter(trace, target, this.threadId, this.depth); },
+            onLeave: function(retval) { onLeave(trace, target, this.threadId, this.depth, retval); }
+        });
+    }
+
+    function instrumentJava(trace, target) {
+        var overloads = [];
+        var depths = {};
+        Java.performNow(function() {
+            var klass = Java.ClassFactory.get(target.loader).use(target.className);
+            klass[target.method].overloads.forEach(function(overload) {
+                overload.implementation = function() {
+                    var threadId = Process.getCurrentThreadId();
+                    var depth = depths[threadId] || 0;
+                    depths[threadId] = depth + 1;
+                    onEnter(trace, target, threadId, depth);
+                    try {
+                        var result = overload.apply(this, arguments);
+                        onLeave(trace, target, threadId, depth, result);
+                        return result;
+                    } finally {
+                        depths[threadId] = depth;
+                    }
+                };
+                overloads.push(overload);
+            });
+        });
+        return { detach: function() { Java.perform(function() { overloads.forEach(o => { o.implementation = null; }); }); } };
+    }
+
+    rpc.exports = {
+        start: function(id, include, exclude, mode, maxTargets) {
+            if (traces.has(id)) throw new Error('Trace ' + id + ' already exists');
+            var excluded = exclude.map(globMatcher);
+            var seen = {};
+            var targets = [];
+            include.forEach(function(pattern) {
+                resolve(pattern).forEach(function(t) {
+                    var key = t.kind === 'native' ? t.address.toString() : t.name;
+                    if (seen[key] || excluded.some(m => m(t.name))) return;
+                    seen[key] = true;
+                    targets.push(t);
+                });
+            });
+            if (targets.length === 0) throw new Error('No functions match the include patterns');
+            if (targets.length > maxTargets) {
+                throw new Error(targets.length + ' functions match, more than max_targets (' + maxTargets + '). Narrow the patterns or add excludes.');
+            }
+
+            var trace = { id: id, mode: mode, hits: {}, threads: {}, pending: 0, startedAt: Date.now(), listeners: [] };
+            traces.set(id, trace);
+            try {
+                targets.forEach(t => trace.listeners.push(t.kind === 'java' ? instrumentJava(trace, t) : instrumentNative(trace, t)));
+            } catch (e) {
+                trace.listeners.forEach(l => l.detach());
+                traces.delete(id);
+                throw e;
+            }
+            if (mode === 'calls') trace.timer = setInterval(() => flush(trace), FLUSH_INTERVAL_MS);
+            return { functions: targets.length, sample: targets.slice(0, 20).map(t => t.name) };
+        },
+        stop: function(id) {
+            var trace = traces.get(id);
+            if (!trace) throw new Error('Trace ' + id + ' not found');
+            trace.listeners.forEach(l => l.detach());
+            Interceptor.flush();
+            if (trace.timer) clearInterval(trace.timer);
+            flush(trace);
+            traces.delete(id);
+
+            var hits = Object.keys(trace.hits)
+                .map(name => ({ name: name, count: trace.hits[name] }))
+                .sort((a, b) => b.count - a.count);
+            return { duration_ms: Date.now() - trace.startedAt, total_calls: hits.reduce((n, h) => n + h.count, 0), hits: hits };
+        }
+    };
+})();
+`;
+
+// Helper agent behind start_coverage / stop_coverage. Basic blocks are collected from
+// Stalker compile events (each block is reported once, when first compiled) and packed
+// as drcov bb entries: uint32 module offset, uint16 size, uint16 module id.
+const COVERAGE_AGENT_SOURCE = `
+(function() {
+    var sessions = new Map();
+
+    function follow(state, threadId) {
+        if (state.mode === 'call_summary') {
+            Stalker.follow(threadId, {
+                events: { call: true },
+                onCallSummary: function(summary) {
+                    Object.keys(summary).forEach(function(target) {
+                        state.calls[target] = (state.calls[target] || 0) + summary[target];
+                    });
+                }
+            });
+            return;
+        }
+        Stalker.follow(threadId, {
+            events: { compile: true },
+            onReceive: function(events) {
+                Stalker.parse(events, { stringify: false, annotate: false }).forEach(function(block) {
+                    var start = block[0];
+                    var module = state.moduleMap.find(start);
+                    if (module === null) return;
+                    if (state.moduleFilter && state.moduleFilter.indexOf(module.name) === -1) return;
+                    var key = start.toString();
+                    if (state.blocks.has(key)) return;
+                    if (!state.modules.has(module.path)) {
+                        state.modules.set(module.path, { base: module.base.toString(), end: module.base.add(module.size).toString() });
+                    }
+                    state.blocks.set(key, [module.path, start.sub(module.base).toUInt32(), block[1].sub(start).toUInt32()]);
+                });
+            }
+        });
+    }
+
+    rpc.exports = {
+        start: function(id, threadIds, mode, modules) {
+            if (sessions.has(id)) throw new Error('Coverage ' + id + ' already exists');
+            var threads = threadIds !== null ? threadIds : Process.enumerateThreads().map(t => t.id);
+            var state = {
+                mode: mode,
+                threads: threads,
+                moduleMap: new ModuleMap(),
+                moduleFilter: modules,
+                modules: new Map(),
+                blocks: new Map(),
+                calls: {},
+                packed: null,
+                startedAt: Date.now()
+            };
+            var followed = [];
+            threads.forEach(function(threadId) {
+                try {
+                    follow(state, threadId);
+                    followed.push(threadId);
+                } catch (e) {
+                    // The thread may have exited since enumeration
+                }
+            });
+            if (followed.length === 0) throw new Error('Could not follow any of the requested threads');
+            state.threads = followed;
+            sessions.set(id, state);
+            return { threads: followed };
+        },
+        stop: function(id) {
+            var state = sessions.get(id);
+            if (!state) throw new Error('Coverage ' + id + ' not found');
+            state.threads.forEach(function(threadId) {
+                try { Stalker.unfollow(threadId); } catch (e) { }
+            });
+            Stalker.flush();
+            Stalker.garbageCollect();
+
+            var duration = Date.now() - state.startedAt;
+            if (state.mode === 'call_summary') {
+                // Nothing is left to fetch, so the ID is free again
+                sessions.delete(id);
+                var calls = Object.keys(state.calls).map(function(target) {
+                    var address = ptr(target);
+                    return { address: target, symbol: DebugSymbol.fromAddress(address).toString(), count: state.calls[target] };
+                }).sort((a, b) => b.count - a.count);
+                return { duration_ms: duration, calls: calls };
+            }
+
+            var moduleIds = new Map();
+            var modules = [];
+            state.modules.forEach(function(range, modulePath) {
+                moduleIds.set(modulePath, modules.length);
+                modules.push({ id: modules.length, path: modulePath, base: range.base, end: range.end });
+            });
+            var entries = Array.from(state.blocks.values());
+            if (entries.length === 0) {
+                sessions.delete(id);
+                return { duration_ms: duration, modules: modules, block_count: 0 };
+            }
+
+            var packed = new ArrayBuffer(entries.length * 8);
+            var view = new DataView(packed);
+            entries.forEach(function(entry, i) {
+                view.setUint32(i * 8, entry[1], true);
+                view.setUint16(i * 8 + 4, Math.min(entry[2], 0xffff), true);
+                view.setUint16(i * 8 + 6, moduleIds.get(entry[0]), true);
+            });
+            state.packed = packed;
+            return { duration_ms: duration, modules: modules, block_count: entries.length };
+        },
+        // Fetch (and release) the packed bb table of a stopped coverage session. Runs
+        // without blocks are released by stop() itself, as there is nothing to fetch.
+        blocks: function(id) {
+            var state = sessions.get(id);
+            if (!state || state.packed === null) throw new Error('Coverage ' + id + ' has not been stopped');
+            sessions.delete(id);
+            return state.packed;
+        }
+    };
+})();
+`;
+
+// Coverage IDs name the default drcov file, so they must not carry path separators
+const COVERAGE_ID_PATTERN = /^[\w.-]+$/;
+
+// Build a drcov v2 file (as read by Lighthouse, bncov and dragondance)
+function buildDrcov(modules: { id: number; path: string; base: string; end: string }[], blocks: Buffer): Buffer {
+    const header = [
+        "DRCOV VERSION: 2",
+        "DRCOV FLAVOR: frida",
+        `Module Table: version 2, count ${modules.length}`,
+        "Columns: id, base, end, entry, checksum, timestamp, path",
+        ...modules.map(m => `${m.id}, ${m.base}, ${m.end}, 0x0000000000000000, 0x00000000, 0x00000000, ${m.path}`),
+        `BB Table: ${blocks.length / 8} bbs`
+    ].join("\n") + "\n";
+    return Buffer.concat([Buffer.from(header, "utf8"), blocks]);
+}
+
+const sessions = new Map<string, ActiveSession>();
+
+// Recently detached sessions, newest last, for list_sessions
+const MAX_DETACH_HISTORY = 50;
+
+interface DetachRecord {
+    session_id: string;
+    device_id: string;
+    pid: number;
+    reason: string;
+    crash: { summary: string; process_name: string } | null;
+    recovery: 'resume' | 'reattach' | null;
+    detached_at: string;
+}
+
+const DEFAULT_REATTACH_TIMEOUT_MS = 30000;
+const REATTACH_POLL_MS = 500;
+
+const outputCapturedDevices = new Set<string>();
+
+const sleep = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// The record keeps who could see the session, so it stays as private as the session was
+interface DetachEntry {
+    record: DetachRecord;
+    owner?: string;
+    shared: boolean;
+}
+
+const detachHistory: DetachEntry[] = [];
+
+class SessionManager {
+    static async create(processId: number, deviceId?: string, options: SessionCreateOptions = {}, owner = clientContext.getStore()?.id): Promise<string> {
+        const device = await resolveDevice(deviceId);
+
+        // Remember the process name so a restarted process can be found again (and check it against the policy)
+        let processName: string | null = null;
+        try {
+            processName = await PolicyEngine.processName(device, processId);
+        } catch { }
+        PolicyEngine.assertProcess(processName, processId);
+
+        const session = await device.attach(processId, this.attachOptions(options));
+        const sessionId = `session_${processId}_${Date.now()}`;
+
+        const activeSession: ActiveSession = {
+            session,
+            device,
+            pid: processId,
+            processName,
+            options,
+            state: 'attached',
+            reattachCount: 0,
+            scripts: new Map(),
+            agents: new Map(),
+            agentTiming: new Map(),
+            installs: new Map(),
+            messageQueue: new MessageBuffer(options.queueCapacity ?? DEFAULT_QUEUE_CAPACITY),
+            id: sessionId,
+            createdAt: Date.now(),
+            owner
+        };
+        sessions.set(sessionId, activeSession);
+        this.bind(activeSession, session);
+        activeSession.messageQueue.subscribe(entry => AuditLog.scriptMessage(sessionId, entry));
+        activeSession.messageQueue.subscribe(() => ResourceNotifier.updated(sessionMessagesUri(sessionId)));
+        ResourceNotifier.listChanged();
+
+        return sessionId;
+    }
+
+    private static attachOptions(options: SessionCreateOptions): SessionOptions {
+        const attachOptions: SessionOptions = {};
+        if (options.persistTimeout !== undefined) attachOptions.persistTimeout = options.persistTimeout;
+        if (options.realm !== undefined) attachOptions.realm = options.realm as Realm;
+        return attachOptions;
+    }
+
+    // Detach handler. Handlers of sessions that have since been replaced by a reattach are ignored.
+    private static bind(activeSession: ActiveSession, session: Session) {
+        session.detached.connect((reason, crash) => {
+            if (activeSession.session !== session) return;
+            console.error(`Session ${activeSession.id} detached: ${reason}`);
+            this.onDetached(activeSession, reason, crash);
+        });
+    }
+
+    private static onDetached(activeSession: ActiveSession, reason: string, crash: Crash | null) {
+        const { options } = activeSession;
+        let recovery: DetachRecord['recovery'] = null;
+        if (reason === 'connection-terminated' && (options.persistTimeout ?? 0) > 0) {
+            recovery = 'resume';
+        } else if ((reason === 'process-replaced' || reason === 'process-terminated') && options.autoReattach) {
+            recovery = 'reattach';
+        }
+
+        detachHistory.push({
+            record: {
+                session_id: activeSession.id,
+                device_id: activeSession.device.id,
+                pid: activeSession.pid,
+                reason,
+                crash: crash ? { summary: crash.summary, process_name: crash.processName } : null,
+                recovery,
+                detached_at: new Date().toISOString()
+            },
+            owner: activeSession.owner,
+            shared: this.shared(activeSession)
+        });
+        if (detachHistory.length > MAX_DETACH_HISTORY) detachHistory.splice(0, detachHistory.length - MAX_DETACH_HISTORY);
+
+        if (recovery === 'resume') {
+            activeSession.state = 'interrupted';
+            this.resumeSession(activeSession);
+        } else if (recovery === 'reattach') {
+            activeSession.state = 'reattaching';
+            this.reattach(activeSession, reason);
+        } else {
+            this.remove(activeSession.id);
+            return;
+        }
+        ResourceNotifier.updated(sessionUri(activeSession.id));
+    }
+
+    // After a lost connection, frida-server keeps the session for persistTimeout seconds; keep trying to resume it
+    private static async resumeSession(activeSession: ActiveSession) {
+        const deadline = Date.now() + (activeSession.options.persistTimeout ?? 0) * 1000;
+        while (Date.now() < deadline && sessions.get(activeSession.id) === activeSession) {
+            try {
+                await activeSession.session.resume();
+                activeSession.state = 'attached';
+                console.error(`Session ${activeSession.id} resumed`);
+                ResourceNotifier.updated(sessionUri(activeSession.id));
+                return;
+            } catch {
+                await sleep(1000);
+            }
+        }
+        console.error(`Session ${activeSession.id} could not be resumed within its persist timeout`);
+        this.remove(activeSession.id);
+    }
+
+    // Find the replaced/restarted process, attach to it under the same session ID and re-inject kept-alive scripts
+    private static async reattach(activeSession: ActiveSession, reason: string) {
+        const { device, options } = activeSession;
+        const oldPid = activeSession.pid;
+        const deadline = Date.now() + (options.reattachTimeoutMs ?? DEFAULT_REATTACH_TIMEOUT_MS);
+
+        while (Date.now() < deadline && sessions.get(activeSession.id) === activeSession) {
+            try {
+                const processes = await device.enumerateProcesses();
+                // exec() keeps the PID; a restart gets a new PID under the same name
+                const target = (reason === 'process-replaced' ? processes.find(p => p.pid === oldPid) : undefined)
+                    ?? processes.find(p => p.name === activeSession.processName && p.pid !== oldPid);
+                if (target) {
+                    const session = await device.attach(target.pid, this.attachOptions(options));
+                    activeSession.session = session;
+                    activeSession.pid = target.pid;
+                    activeSession.processName = target.name;
+                    const hadRepl = activeSession.agents.has('repl');
+                    activeSession.agents.clear();
+                    activeSession.arch = undefined;
+                    activeSession.reattachCount++;
+                    this.bind(activeSession, session);
+
+                    const previous = Array.from(activeSession.scripts.values());
+                    activeSession.scripts.clear();
+                    const reinjected: string[] = [];
+                    const failed: { script_id: string; error: string }[] = [];
+                    for (const entry of previous) {
+                        try {
+                            await this.inject(activeSession.id, entry);
+                            reinjected.push(entry.id);
+                        } catch (e: any) {
+                            failed.push({ script_id: entry.id, error: e.toString() });
+                        }
+                    }
+
+                    const { restored, lost } = await this.restoreInstalls(activeSession);
+                    if (hadRepl) lost.unshift({ kind: 'repl', error: 'REPL globals do not survive a reattach' });
+
+                    activeSession.state = 'attached';
+                    activeSession.messageQueue.push('server', {
+                        type: 'send',
+                        payload: { type: 'session_reattached', old_pid: oldPid, new_pid: target.pid, reinjected, failed, restored, lost }
+                    }, null);
+                    console.error(`Session ${activeSession.id} reattached to PID ${target.pid}`);
+                    ResourceNotifier.updated(sessionUri(activeSession.id));
+                    return;
+                }
+            } catch (e: any) {
+                console.error(`Reattach attempt for ${activeSession.id} failed: ${e}`);
+            }
+            await sleep(REATTACH_POLL_MS);
+        }
+        console.error(`Session ${activeSession.id} could not be reattached`);
+        this.remove(activeSession.id);
+    }
+
+    // Install recorded hooks and traces again after a reattach. Coverage runs can't be carried over:
+    // their blocks were collected in the old process and their thread IDs are gone.
+    private static async restoreInstalls(activeSession: ActiveSession) {
+        const restored: { kind: string; id: string }[] = [];
+        const lost: { kind: string; id?: string; error: string }[] = [];
+        for (const [key, install] of Array.from(activeSession.installs)) {
+            if (install.kind === 'coverage') {
+                activeSession.installs.delete(key);
+                lost.push({ kind: install.kind, id: install.id, error: 'Coverage runs are not carried over to the new process' });
+                continue;
+            }
+            try {
+                await this.callAgent(activeSession.id, install.agent, install.source, install.method, install.args);
+                restored.push({ kind: install.kind, id: install.id });
+            } catch (e: any) {
+                activeSession.installs.delete(key);
+                lost.push({ kind: install.kind, id: install.id, error: e.toString() });
+            }
+        }
+        return { restored, lost };
+    }
+
+    static list() {
+        return {
+            sessions: Array.from(sessions.values()).filter(s => this.visible(s)).map(s => this.describe(s)),
+            recently_detached: detachHistory.filter(entry => this.canSee(entry.owner, entry.shared)).map(entry => entry.record)
+        };
+    }
+
+    // Latest detach record of a session the calling client could see
+    static detachRecord(sessionId: string): DetachRecord | undefined {
+        return detachHistory.filter(entry => entry.record.session_id === sessionId && this.canSee(entry.owner, entry.shared)).pop()?.record;
+    }
+
+    // Whether a client can see a session, live or recently detached (for resource subscriptions, outside any client context)
+    static visibleTo(sessionId: string, client: string): boolean {
+        const activeSession = sessions.get(sessionId);
+        if (activeSession) return this.visible(activeSession, client);
+        return detachHistory.some(entry => entry.record.session_id === sessionId && this.canSee(entry.owner, entry.shared, client));
+    }
+
+    static describe(s: ActiveSession) {
+        return {
+            session_id: s.id,
+            shared: this.shared(s),
+            device_id: s.device.id,
+            device_name: s.device.name,
+            pid: s.pid,
+            process_name: s.processName,
+            state: s.state,
+            persist_timeout: s.options.persistTimeout ?? 0,
+            auto_reattach: !!s.options.autoReattach,
+            reattach_count: s.reattachCount,
+            created_at: new Date(s.createdAt).toISOString(),
+            script_count: s.scripts.size,
+            scripts: Array.from(s.scripts.keys()),
+            helper_agents: Array.from(s.agents.keys()),
+            helper_agent_timing: Object.fromEntries(s.agentTiming),
+            queued_messages: s.messageQueue.size,
+            dropped_messages: s.messageQueue.dropped
+        };
+    }
+
+    // Forget a session for good (and stop watching its script files) and tell resource subscribers
+    private static remove(sessionId: string) {
+        sessions.delete(sessionId);
+        ScriptFileManager.unwatchSession(sessionId);
+        GatingManager.forgetSession(sessionId);
+        ResourceNotifier.updated(sessionUri(sessionId));
+        ResourceNotifier.listChanged();
+    }
+
+    // Unload every script and helper agent, then detach. Unload failures are ignored
+    // since the goal is to leave the target clean, not to report on each script.
+    static async detach(sessionId: string): Promise<void> {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+
+        const unloads: Promise<void>[] = [];
+        for (const entry of activeSession.scripts.values()) {
+            if (!entry.script.isDestroyed) unloads.push(entry.script.unload().catch(() => { }));
+        }
+        for (const agent of activeSession.agents.values()) {
+            unloads.push(agent.then(script => script.unload()).catch(() => { }));
+        }
+        await Promise.all(unloads);
+        activeSession.scripts.clear();
+        activeSession.agents.clear();
+
+        await activeSession.session.detach();
+        this.remove(sessionId);
+    }
+
+    static async detachAll(): Promise<void> {
+        await Promise.all(Array.from(sessions.keys()).map(id =>
+            this.detach(id).catch(err => console.error(`Failed to detach ${id}: ${err}`))
+        ));
+    }
+
+    // Route piped stdout/stderr of spawned processes to the session attached to that PID (idempotent per device)
+    static captureOutput(device: Device) {
+        if (outputCapturedDevices.has(device.id)) return;
+        outputCapturedDevices.add(device.id);
+        device.output.connect((pid, fd, data) => {
+            for (const activeSession of sessions.values()) {
+                if (activeSession.device.id !== device.id || activeSession.pid !== pid) continue;
+                activeSession.messageQueue.push('stdio', {
+                    type: 'output',
+                    fd,
+                    stream: fd === 2 ? 'stderr' : 'stdout',
+                    text: data.toString('utf8')
+                }, null);
+            }
+        });
+    }
+
+    static get(sessionId: string): ActiveSession | undefined {
+        const activeSession = sessions.get(sessionId);
+        return activeSession && this.visible(activeSession) ? activeSession : undefined;
+    }
+
+    private static shared(activeSession: ActiveSession): boolean {
+        return activeSession.owner === undefined || (activeSession.options.shared ?? SHARE_SESSIONS_BY_DEFAULT);
+    }
+
+    private static visible(activeSession: ActiveSession, client = clientContext.getStore()?.id): boolean {
+        return this.canSee(activeSession.owner, this.shared(activeSession), client);
+    }
+
+    private static canSee(owner: string | undefined, shared: boolean, client = clientContext.getStore()?.id): boolean {
+        return client === undefined || owner === client || shared;
+    }
+
+    // Detach the sessions a disconnected client owned; shared sessions stay for the other clients
+    static async detachClient(clientId: string): Promise<void> {
+        const owned = Array.from(sessions.values()).filter(s => s.owner === clientId && !this.shared(s));
+        await Promise.all(owned.map(s =>
+            this.detach(s.id).catch(err => console.error(`Failed to detach ${s.id}: ${err}`))
+        ));
+    }
+
+    // Resolve a kept-alive script by ID, falling back to the most recently loaded one
+    static getScript(sessionId: string, scriptId?: string): ManagedScript {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+
+        if (scriptId) {
+            const entry = activeSession.scripts.get(scriptId);
+            if (!entry) throw new ToolError('SCRIPT_NOT_FOUND', `Script ${scriptId} not found in session ${sessionId}`);
+            return entry;
+        }
+
+        const entries = Array.from(activeSession.scripts.values());
+        if (entries.length === 0) throw new ToolError('SCRIPT_NOT_FOUND', "No active scripts in session");
+        return entries[entries.length - 1];
+    }
+
+    static listScripts(sessionId: string) {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+
+        return Array.from(activeSession.scripts.values()).map(entry => ({
+            script_id: entry.id,
+            created_at: new Date(entry.createdAt).toISOString(),
+            destroyed: entry.script.isDestroyed,
+            kind: entry.kind,
+            path: entry.file?.path,
+            recipe: entry.recipe,
+            watching: entry.file ? watchedScripts.has(watchKey(sessionId, entry.id)) : undefined,
+            source_length: entry.source.length
+        }));
+    }
+
+    static async unloadScript(sessionId: string, scriptId: string): Promise<void> {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        const entry = this.getScript(sessionId, scriptId);
+
+        activeSession.scripts.delete(scriptId);
+        if (!entry.script.isDestroyed) await entry.script.unload();
+    }
+
+    static reloadScript(sessionId: string, scriptId: string): Promise<any> {
+        return this.serializeReload(sessionId, scriptId, async () => {
+            const entry = this.getScript(sessionId, scriptId);
+            if (entry.file) return ScriptFileManager.replace(sessionId, scriptId, entry.file);
+            await this.unloadScript(sessionId, scriptId);
+            return this.inject(sessionId, entry);
+        });
+    }
+
+    // Run reloads of one script back to back, so overlapping ones can't race to recreate its ID
+    static serializeReload<T>(sessionId: string, scriptId: string, reload: () => Promise<T>): Promise<T> {
+        const key = watchKey(sessionId, scriptId);
+        const run = (pendingReloads.get(key) ?? Promise.resolve()).then(reload);
+        const settled = run.then(() => { }, () => { });
+        pendingReloads.set(key, settled);
+        settled.then(() => {
+            if (pendingReloads.get(key) === settled) pendingReloads.delete(key);
+        });
+        return run;
+    }
+
+    // Load a managed script again from its recorded source, preserving its ID
+    private static async inject(sessionId: string, entry: ManagedScript): Promise<any> {
+        const result = entry.kind === 'bundle'
+            ? await this.loadBundle(sessionId, entry.source, true, entry.id)
+            : await this.execute(sessionId, entry.source, true, entry.id, {}, entry.executeOptions);
+
+        const injected = this.get(sessionId)?.scripts.get(entry.id);
+        if (injected) {
+            injected.file = entry.file;
+            injected.recipe = entry.recipe;
+        }
+        return result;
+    }
+
+    // Lazily load a named helper agent; concurrent callers share the same load
+    static getAgent(sessionId: string, name: string, source: string): Promise<Script> {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+
+        let load = activeSession.agents.get(name);
+        if (!load) {
+            const pending = (async () => {
+                AuditLog.scriptSource(sessionId, name, 'agent', source);
+                const bundled = COMPILED_AGENTS.has(name);
+                const code = bundled ? (await AgentCompiler.compile({ source })).bundle : source;
+                const { script, cache, create_ms } = await ScriptCache.createAgentScript(activeSession, code, bundled);
+                // frida-node's default log handler prints to stdout, which would corrupt the MCP stdio stream
+                script.logHandler = (level, text) => {
+                    activeSession.messageQueue.push(name, { type: 'log', level, payload: text }, null);
+                };
+                script.message.connect((msg, d) => {
+                    activeSession.messageQueue.push(name, msg, d);
+                });
+                script.destroyed.connect(() => {
+                    if (activeSession.agents.get(name) === pending) activeSession.agents.delete(name);
+                });
+                const loading = Date.now();
+                await script.load();
+                activeSession.agentTiming.set(name, { cache, create_ms, load_ms: Date.now() - loading });
+                return script;
+            })();
+            activeSession.agents.set(name, pending);
+            pending.catch(() => {
+                if (activeSession.agents.get(name) === pending) activeSession.agents.delete(name);
+            });
+            load = pending;
+        }
+
+        return load;
+    }
+
+    // Call an RPC export of a helper agent, bounded by the usual timeout
+    static async callAgent(sessionId: string, name: string, source: string, method: string, args: any[], limits: CallLimits = {}): Promise<any> {
+        const script = await this.getAgent(sessionId, name, source);
+        return withLimits(script.exports[method](...args), `${name}.${method}`, limits, () => { }).catch(e => { throw agentError(e); });
+    }
+
+    // Call into a helper agent to install instrumentation, and remember it for reattaches
+    static async install(sessionId: string, install: AgentInstall): Promise<any> {
+        const result = await this.callAgent(sessionId, install.agent, install.source, install.method, install.args);
+        this.get(sessionId)?.installs.set(`${install.kind}/${install.id}`, install);
+        return result;
+    }
+
+    static forgetInstall(sessionId: string, kind: AgentInstall['kind'], id: string) {
+        this.get(sessionId)?.installs.delete(`${kind}/${id}`);
+    }
+
+    static async evaluate(sessionId: string, code: string, limits: CallLimits = {}, binaryEncoding: BinaryEncoding = 'base64'): Promise<any> {
+        const script = await this.getAgent(sessionId, 'repl', REPL_AGENT_SOURCE);
+        // A wedged REPL agent is unloaded; the next call starts a fresh global scope
+        const payload = await withLimits(script.exports.evaluate(code, binaryEncoding), 'REPL evaluation', limits, () => {
+            script.unload().catch(() => { });
+        });
+
+        return {
+            status: payload.error ? 'error' : 'success',
+            code: payload.error ? 'SCRIPT_ERROR' : undefined,
+            mode: 'repl',
+            result: Serializer.value(payload.result, binaryEncoding),
+            error: payload.error,
+            logs: payload.logs
+        };
+    }
+
+    static async inspectGlobals(sessionId: string): Promise<any[]> {
+        return this.callAgent(sessionId, 'repl', REPL_AGENT_SOURCE, 'globals', []);
+    }
+
+    // Long-poll the session's queue until a message after sinceCursor matches the predicate.
+    // Resolves with the match plus every message that arrived between sinceCursor and it.
+    static async waitForMessage(sessionId: string, predicate: MessageQuery, peek: boolean, limits: CallLimits = {}): Promise<any> {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+
+        const queue = activeSession.messageQueue;
+        const sinceCursor = predicate.sinceCursor ?? queue.lastCursor;
+        const condition = { ...predicate, sinceCursor };
+
+        let unsubscribe = () => { };
+        const match = new Promise<QueuedMessage>(resolve => {
+            const [existing] = queue.query({ ...condition, limit: 1 }, true);
+            if (existing) return resolve(existing);
+            unsubscribe = queue.subscribe(entry => {
+                if (MessageBuffer.matches(entry, condition)) {
+                    unsubscribe();
+                    resolve(entry);
+                }
+            });
+        });
+
+        const matched = await withLimits(match, 'Waiting for message', limits, () => unsubscribe());
+        const collected = queue.query({ sinceCursor, untilCursor: matched.cursor }, peek);
+
+        return {
+            status: 'success',
+            message: matched,
+            preceding: collected.filter(entry => entry !== matched),
+            next_cursor: matched.cursor
+        };
+    }
+
+    static async callFunction(sessionId: string, functionName: string, args: any[], scriptId?: string, limits: CallLimits = {}): Promise<any> {
+        const entry = this.getScript(sessionId, scriptId);
+        const api = entry.script.exports;
+        if (typeof api[functionName] !== 'function') {
+            throw new ToolError('NOT_FOUND', `Function '${functionName}' not found in exports`);
+        }
+        // A wedged script is unloaded with its hooks, like a timed-out execution
+        return withLimits(api[functionName](...args), `RPC call '${functionName}'`, limits, () => {
+            const activeSession = this.get(sessionId);
+            if (activeSession?.scripts.get(entry.id) === entry) activeSession.scripts.delete(entry.id);
+            ScriptFileManager.unwatch(sessionId, entry.id);
+            entry.script.unload().catch(() => { });
+        }).catch(e => { throw agentError(e); });
+    }
+
+    static async execute(sessionId: string, code: string, keepAlive: boolean, scriptId?: string, limits: CallLimits = {}, options: ExecuteOptions = {}): Promise<any> {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        if (scriptId && activeSession.scripts.has(scriptId)) {
+            throw new ToolError('INVALID_ARGUMENT', `Script ${scriptId} already exists in session ${sessionId}. Unload or reload it first.`);
+        }
+
+        // Caller-chosen ID, or a generated one that is returned to the caller
+        const id = scriptId || `script_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+        const started = Date.now();
+        AuditLog.scriptSource(sessionId, id, 'code', code);
+
+        // CRITICAL FIX: explicitly use 'v8' runtime unless the caller opts into QuickJS
+        const runtime = options.runtime ?? 'v8' as ScriptRuntime;
+        // The wrapper captures console.log and the return value; the code itself is posted once it is loaded
+        const { script, cache, create_ms } = await ScriptCache.createExecutionScript(activeSession, runtime, options.libraries);
+
+        let handled = false;
+        let loadedAt = started;
+        // console.log output during the run comes back in the receipt's logs; everything else is queued
+        script.logHandler = (level, text) => {
+            if (!handled && level === 'info') return;
+            activeSession.messageQueue.push(id, { type: 'log', level, payload: text }, null);
+        };
+        const execution = new Promise((resolve, reject) => {
+            const onMessage = (message: any, data: Buffer | null) => {
+                if (message.type === 'send') {
+                    const payload = message.payload;
+                    if (payload.type === 'execution_receipt') {
+                        if (!handled) {
+                            handled = true;
+                            if (keepAlive) {
+                                // Keep script alive for further hooks
+                                activeSession.scripts.set(id, { id, script, source: code, kind: 'code', executeOptions: options, createdAt: Date.now() });
+                                script.destroyed.connect(() => {
+                                    if (activeSession.scripts.get(id)?.script === script) activeSession.scripts.delete(id);
+                                });
+                                // Re-bind message handler for persistent logging to queue
+                                script.message.disconnect(onMessage);
+                                script.message.connect((msg, d) => {
+                                    activeSession.messageQueue.push(id, msg, d);
+                                });
+                            } else {
+                                script.unload().catch(() => { });
+                            }
+
+                            const finished = Date.now();
+                            resolve({
+                                status: payload.error ? 'error' : 'success',
+                                code: payload.error ? 'SCRIPT_ERROR' : undefined,
+                                script_id: keepAlive ? id : undefined,
+                                result: Serializer.value(payload.result, options.binaryEncoding),
+                                error: payload.error,
+                                logs: payload.logs,
+                                timing: {
+                                    runtime,
+                                    cache,
+                                    create_ms,
+                                    load_ms: loadedAt - started - create_ms,
+                                    run_ms: finished - loadedAt,
+                                    total_ms: finished - started
+                                }
+                            });
+                        }
+                    } else if (keepAlive) {
+                        activeSession.messageQueue.push(id, message, data);
+                    }
+                } else if (message.type === 'error') {
+                    if (!handled) {
+                        handled = true;
+                        resolve({ status: 'error', code: 'SCRIPT_ERROR', error: message.description, details: message });
+                    }
+                }
+            };
+
+            script.message.connect(onMessage);
+            script.load().then(() => {
+                loadedAt = Date.now();
+                script.post({ type: 'execute', code, binary: options.binaryEncoding ?? 'base64' });
+            }).catch(err => {
+                if (!handled) reject(err);
+            });
+        });
+
+        return withLimits(execution, 'Script execution', limits, () => {
+            handled = true;
+            script.unload().catch(() => { });
+        });
+    }
+
+    // Load a frida.Compiler bundle without the execution wrapper. Its messages go straight to the queue.
+    static async loadBundle(sessionId: string, bundle: string, keepAlive: boolean, scriptId?: string, limits: CallLimits = {}): Promise<any> {
+        const activeSession = this.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        if (scriptId && activeSession.scripts.has(scriptId)) {
+            throw new ToolError('INVALID_ARGUMENT', `Script ${scriptId} already exists in session ${sessionId}. Unload or reload it first.`);
+        }
+
+        const id = scriptId || `script_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+        const started = Date.now();
+        AuditLog.scriptSource(sessionId, id, 'bundle', bundle);
+        const script = await activeSession.session.createScript(bundle, { runtime: 'v8' as ScriptRuntime });
+        const created = Date.now();
+
+        let loadError: any;
+        script.logHandler = (level, text) => {
+            activeSession.messageQueue.push(id, { type: 'log', level, payload: text }, null);
+        };
+        script.message.connect((msg, d) => {
+            if (msg.type === 'error' && loadError === undefined) loadError = msg;
+            activeSession.messageQueue.push(id, msg, d);
+        });
+
+        await withLimits(script.load(), 'Script load', limits, () => {
+            script.unload().catch(() => { });
+        });
+
+        if (keepAlive && loadError === undefined) {
+            activeSession.scripts.set(id, { id, script, source: bundle, kind: 'bundle', createdAt: Date.now() });
+            script.destroyed.connect(() => {
+                if (activeSession.scripts.get(id)?.script === script) activeSession.scripts.delete(id);
+            });
+        } else {
+            await script.unload();
+        }
+
+        return {
+            status: loadError ? 'error' : 'success',
+            code: loadError ? 'SCRIPT_ERROR' : undefined,
+            script_id: keepAlive && !loadError ? id : undefined,
+            error: loadError ? { message: loadError.description, stack: loadError.stack } : undefined,
+            timing: { create_ms: created - started, load_ms: Date.now() - created, total_ms: Date.now() - started }
+        };
+    }
+}
+
+// --- Spawn & Child Gating ---
+const MAX_GATING_EVENTS = 200;
+
+interface AutoAttachPolicy {
+    code?: string;
+    identifierFilter?: string;
+    resume: boolean;
+    resumeUnmatched: boolean;
+    // Client that enabled gating; it owns the sessions auto-attach creates
+    owner?: string;
+}
+
+interface GatingEvent {
+    kind: 'spawn' | 'child';
+    pid: number;
+    identifier: string | null;
+    parent_pid?: number;
+    origin?: string;
+    path?: string | null;
+    argv?: string[] | null;
+    observed_at: string;
+    session_id?: string;
+    script_id?: string;
+    auto_attach_error?: string;
+    resumed: boolean;
+}
+
+interface DeviceGating {
+    device: Device;
+    events: GatingEvent[];
+    spawnGating: boolean;
+    spawnPolicy?: AutoAttachPolicy;
+    // Child gating policies keyed by the parent's session ID
+    childPolicies: Map<string, AutoAttachPolicy>;
+}
+
+const gatedDevices = new Map<string, DeviceGating>();
+
+class GatingManager {
+    // Start collecting spawnAdded / childAdded signals for a device (idempotent)
+    static track(device: Device): DeviceGating {
+        let gating = gatedDevices.get(device.id);
+        if (gating) return gating;
+
+        gating = { device, events: [], spawnGating: false, childPolicies: new Map() };
+        gatedDevices.set(device.id, gating);
+        const state = gating;
+
+        device.spawnAdded.connect((spawn) => {
+            const event = this.record(state, {
+                kind: 'spawn',
+                pid: spawn.pid,
+                identifier: spawn.identifier,
+                observed_at: new Date().toISOString(),
+                resumed: false
+            });
+            const policy = state.spawnPolicy;
+            if (!policy) return;
+
+            const matches = !policy.identifierFilter
+                || (spawn.identifier ?? '').toLowerCase().includes(policy.identifierFilter.toLowerCase());
+            if (matches) {
+                this.autoAttach(state, event, policy).catch(err => console.error(`Auto-attach to ${spawn.pid} failed: ${err}`));
+            } else if (policy.resumeUnmatched) {
+                this.resume(state, event).catch(err => console.error(`Resume of ${spawn.pid} failed: ${err}`));
+            }
+        });
+
+        device.childAdded.connect((child) => {
+            const event = this.record(state, {
+                kind: 'child',
+                pid: child.pid,
+                identifier: child.identifier,
+                parent_pid: child.parentPid,
+                origin: child.origin,
+                path: child.path,
+                argv: child.argv,
+                observed_at: new Date().toISOString(),
+                resumed: false
+            });
+            for (const [sessionId, policy] of state.childPolicies) {
+                if (SessionManager.get(sessionId)?.pid !== child.parentPid) continue;
+                this.autoAttach(state, event, policy).catch(err => console.error(`Auto-attach to child ${child.pid} failed: ${err}`));
+                break;
+            }
+        });
+
+        return gating;
+    }
+
+    private static record(gating: DeviceGating, event: GatingEvent): GatingEvent {
+        gating.events.push(event);
+        if (gating.events.length > MAX_GATING_EVENTS) gating.events.splice(0, gating.events.length - MAX_GATING_EVENTS);
+        return event;
+    }
+
+    private static async resume(gating: DeviceGating, event: GatingEvent): Promise<void> {
+        await gating.device.resume(event.pid);
+        event.resumed = true;
+    }
+
+    // Attach to a gated process, inject the policy's script, then let it run
+    private static async autoAttach(gating: DeviceGating, event: GatingEvent, policy: AutoAttachPolicy): Promise<void> {
+        try {
+            event.session_id = await SessionManager.create(event.pid, gating.device.id, {}, policy.owner);
+            if (policy.code) {
+                const result = await SessionManager.execute(event.session_id, policy.code, true);
+                event.script_id = result.script_id;
+                if (result.status === 'error') event.auto_attach_error = JSON.stringify(result.error);
+            }
+        } catch (e: any) {
+            event.auto_attach_error = e.toString();
+        }
+        if (policy.resume) await this.resume(gating, event);
+    }
+
+    static async enableSpawnGating(device: Device, policy?: AutoAttachPolicy): Promise<void> {
+        const gating = this.track(device);
+        gating.spawnPolicy = policy;
+        await device.enableSpawnGating();
+        gating.spawnGating = true;
+    }
+
+    static async disableSpawnGating(device: Device): Promise<void> {
+        const gating = this.track(device);
+        gating.spawnPolicy = undefined;
+        await device.disableSpawnGating();
+        gating.spawnGating = false;
+    }
+
+    // Turn spawn gating back off everywhere we enabled it, so launches aren't left suspended
+    static async disableAll(): Promise<void> {
+        await Promise.all(Array.from(gatedDevices.values())
+            .filter(gating => gating.spawnGating)
+            .map(gating => this.disableSpawnGating(gating.device).catch(err => console.error(`Failed to disable spawn gating on ${gating.device.id}: ${err}`))));
+    }
+
+    static async enableChildGating(sessionId: string, policy?: AutoAttachPolicy): Promise<void> {
+        const activeSession = SessionManager.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+
+        const gating = this.track(activeSession.device);
+        if (policy) gating.childPolicies.set(sessionId, policy);
+        else gating.childPolicies.delete(sessionId);
+        await activeSession.session.enableChildGating();
+    }
+
+    static async disableChildGating(sessionId: string): Promise<void> {
+        const activeSession = SessionManager.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+
+        this.track(activeSession.device).childPolicies.delete(sessionId);
+        await activeSession.session.disableChildGating();
+    }
+
+    // A removed session's child gating policy must not carry over to a later session on the same PID
+    static forgetSession(sessionId: string) {
+        for (const gating of gatedDevices.values()) gating.childPolicies.delete(sessionId);
+    }
+
+    static events(device: Device, kind: GatingEvent['kind']): GatingEvent[] {
+        return (gatedDevices.get(device.id)?.events ?? []).filter(event => event.kind === kind);
+    }
+}
+
+// --- Script Files & Hot Reload ---
+const WATCH_DEBOUNCE_MS = 250;
+
+interface ScriptFileSpec {
+    path: string;
+    compile: boolean;
+    // Project directory for compiled scripts (defaults to the nearest directory with a package.json or node_modules)
+    projectRoot?: string;
+}
+
+interface PreparedScript {
+    kind: ManagedScript['kind'];
+    source: string;
+    diagnostics?: any[];
+}
+
+interface WatchedScript {
+    sessionId: string;
+    scriptId: string;
+    spec: ScriptFileSpec;
+    watcher: FSWatcher;
+    timer?: NodeJS.Timeout;
+    reloads: number;
+}
+
+const watchedScripts = new Map<string, WatchedScript>();
+
+const watchKey = (sessionId: string, scriptId: string) => `${sessionId}/${scriptId}`;
+
+// Tail of the reload chain of each script, keyed like watchedScripts
+const pendingReloads = new Map<string, Promise<void>>();
+
+class ScriptFileManager {
+    // Read (and compile, if requested) a script file without touching the session
+    static async prepare(spec: ScriptFileSpec): Promise<PreparedScript> {
+        if (!spec.compile) return { kind: 'code', source: await readFile(spec.path, 'utf8') };
+
+        const compiled = await AgentCompiler.compile({
+            projectRoot: spec.projectRoot ?? AgentCompiler.projectRootOf(spec.path),
+            entrypoint: spec.path
+        });
+        return { kind: 'bundle', source: compiled.bundle, diagnostics: compiled.diagnostics };
+    }
+
+    static async load(sessionId: string, spec: ScriptFileSpec, scriptId: string, limits: CallLimits = {}): Promise<any> {
+        return this.inject(sessionId, await this.prepare(spec), spec, scriptId, limits);
+    }
+
+    private static async inject(sessionId: string, prepared: PreparedScript, spec: ScriptFileSpec, scriptId: string, limits: CallLimits = {}) {
+        const result = prepared.kind === 'bundle'
+            ? await SessionManager.loadBundle(sessionId, prepared.source, true, scriptId, limits)
+            : await SessionManager.execute(sessionId, prepared.source, true, scriptId, limits);
+
+        const entry = SessionManager.get(sessionId)?.scripts.get(scriptId);
+        if (entry) entry.file = spec;
+        return { ...result, path: spec.path, diagnostics: prepared.diagnostics };
+    }
+
+    static watch(sessionId: string, scriptId: string, spec: ScriptFileSpec) {
+        this.unwatch(sessionId, scriptId);
+
+        // Watch the directory rather than the file: editors often save by replacing the file
+        const dir = spec.compile ? (spec.projectRoot ?? AgentCompiler.projectRootOf(spec.path)) : path.dirname(spec.path);
+        const base = path.basename(spec.path);
+        const ignored = (filename: string) => filename.split(path.sep).some(part => part === 'node_modules' || part.startsWith('.'));
+        const watcher = watch(dir, { recursive: spec.compile }, (_event, filename) => {
+            if (filename && (spec.compile ? ignored(filename) : filename !== base)) return;
+            clearTimeout(entry.timer);
+            entry.timer = setTimeout(() => { this.reload(entry); }, WATCH_DEBOUNCE_MS);
+        });
+        const entry: WatchedScript = { sessionId, scriptId, spec, watcher, reloads: 0 };
+        watcher.on('error', err => console.error(`Watcher for ${spec.path} failed: ${err}`));
+        watchedScripts.set(watchKey(sessionId, scriptId), entry);
+    }
+
+    static unwatch(sessionId: string, scriptId: string): boolean {
+        const key = watchKey(sessionId, scriptId);
+        const entry = watchedScripts.get(key);
+        if (!entry) return false;
+        clearTimeout(entry.timer);
+        entry.watcher.close();
+        watchedScripts.delete(key);
+        return true;
+    }
+
+    static unwatchSession(sessionId: string) {
+        for (const entry of Array.from(watchedScripts.values())) {
+            if (entry.sessionId === sessionId) this.unwatch(entry.sessionId, entry.scriptId);
+        }
+    }
+
+    static unwatchAll() {
+        for (const entry of Array.from(watchedScripts.values())) this.unwatch(entry.sessionId, entry.scriptId);
+    }
+
+    // Read the file again and swap the running Script for the new version
+    static async replace(sessionId: string, scriptId: string, spec: ScriptFileSpec): Promise<any> {
+        // Compile before unloading so a broken edit leaves the previous version running
+        const prepared = await this.prepare(spec);
+        if (SessionManager.get(sessionId)?.scripts.has(scriptId)) await SessionManager.unloadScript(sessionId, scriptId);
+        return this.inject(sessionId, prepared, spec, scriptId);
+    }
+
+    // Reload after a change on disk and queue a script_reloaded event with the outcome
+    private static async reload(entry: WatchedScript) {
+        const activeSession = SessionManager.get(entry.sessionId);
+        if (!activeSession) {
+            this.unwatch(entry.sessionId, entry.scriptId);
+            return;
+        }
+
+        entry.reloads++;
+        let outcome: any;
+        try {
+            const result = await SessionManager.serializeReload(entry.sessionId, entry.scriptId,
+                () => this.replace(entry.sessionId, entry.scriptId, entry.spec));
+            outcome = { status: result.status, error: result.error, diagnostics: result.diagnostics };
+        } catch (e: any) {
+            outcome = { status: 'error', code: classifyError(e), error: e.toString(), diagnostics: e.diagnostics };
+        }
+
+        activeSession.messageQueue.push('server', {
+            type: 'send',
+            payload: { type: 'script_reloaded', script_id: entry.scriptId, path: entry.spec.path, reload_count: entry.reloads, ...outcome }
+        }, null);
+    }
+}
+
+// --- Recipes ---
+// Versioned, parameterized agents for recurring jobs. Built-in recipes ship as manifests and agent files in the
+// package's recipes/ directory; more can be added the same way in the user's recipe directory (--recipes <dir>,
+// FRIDA_MCP_RECIPES or ~/.frida-mcp/recipes). Parameters reach the agent as a `RECIPE_PARAMS` constant declared
+// ahead of its source.
+const BUILTIN_RECIPES_DIR = path.resolve(path.dirname(fileURLToPath(import.meta.url)), '..', 'recipes');
+const RECIPES_DIR = cliOption('recipes') ?? process.env.FRIDA_MCP_RECIPES ?? path.join(os.homedir(), '.frida-mcp', 'recipes');
+
+const recipeParameterSchema = z.object({
+    type: z.enum(['string', 'number', 'boolean', 'string[]']),
+    description: z.string(),
+    default: z.any().optional(),
+    required: z.boolean().optional()
+});
+
+// A recipe manifest (<recipes dir>/<name>.json). The agent is inline `source` or a `file` next to the manifest.
+const recipeManifestSchema = z.object({
+    name: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, 'lowercase letters, digits, - and _'),
+    version: z.string(),
+    description: z.string(),
+    platforms: z.array(z.string()).optional().default([]),
+    parameters: z.record(z.string(), recipeParameterSchema).optional().default({}),
+    source: z.string().optional(),
+    file: z.string().optional(),
+    // Bundle with frida.Compiler (imports such as frida-java-bridge). Implied for .ts files.
+    compile: z.boolean().optional()
+}).refine(manifest => (manifest.source === undefined) !== (manifest.file === undefined), 'exactly one of source or file is required');
+
+type RecipeParameter = z.infer<typeof recipeParameterSchema>;
+
+interface Recipe {
+    name: string;
+    version: string;
+    description: string;
+    platforms: string[];
+    parameters: Record<string, RecipeParameter>;
+    source: string;
+    language: 'javascript' | 'typescript';
+    compile: boolean;
+    // 'builtin' or the manifest path
+    origin: string;
+}
+
+class RecipeLibrary {
+    // Built-ins plus user manifests; a user recipe with a built-in's name replaces it
+    static load(dir: string): Map<string, Recipe> {
+        const recipes = new Map<string, Recipe>();
+        this.loadDir(BUILTIN_RECIPES_DIR, recipes, true);
+        this.loadDir(dir, recipes, false);
+        return recipes;
+    }
+
+    private static loadDir(dir: string, recipes: Map<string, Recipe>, builtin: boolean) {
+        if (!existsSync(dir)) return;
+
+        for (const file of readdirSync(dir).filter(name => name.endsWith('.json')).sort()) {
+            const manifestPath = path.join(dir, file);
+            try {
+                const manifest = recipeManifestSchema.parse(JSON.parse(readFileSync(manifestPath, 'utf8')));
+                const sourcePath = manifest.file ? path.resolve(dir, manifest.file) : undefined;
+                const language = sourcePath?.endsWith('.ts') ? 'typescript' : 'javascript';
+                if (recipes.has(manifest.name)) console.error(`Recipe ${manifest.name} from ${manifestPath} replaces an earlier definition`);
+                recipes.set(manifest.name, {
+                    name: manifest.name,
+                    version: manifest.version,
+                    description: manifest.description,
+                    platforms: manifest.platforms,
+                    parameters: manifest.parameters,
+                    source: manifest.source ?? readFileSync(sourcePath!, 'utf8'),
+                    language,
+                    compile: manifest.compile ?? language === 'typescript',
+                    origin: builtin ? 'builtin' : manifestPath
+                });
+            } catch (e: any) {
+                console.error(`Skipping recipe ${manifestPath}: ${e.message}`);
+            }
+        }
+    }
+
+    static get(name: string): Recipe {
+        const recipe = recipes.get(name);
+        if (!recipe) throw new ToolError('NOT_FOUND', `Recipe ${name} not found. Available: ${Array.from(recipes.keys()).join(', ')}`);
+        return recipe;
+    }
+
+    static describe(recipe: Recipe) {
+        return {
+            name: recipe.name,
+            version: recipe.version,
+            description: recipe.description,
+            platforms: recipe.platforms,
+            parameters: recipe.parameters,
+            compile: recipe.compile,
+            origin: recipe.origin
+        };
+    }
+
+    // Validate parameters against the recipe's schema and fill in defaults
+    static params(recipe: Recipe, params: Record<string, any>): Record<string, any> {
+        const shape: Record<string, z.ZodTypeAny> = {};
+        for (const [name, parameter] of Object.entries(recipe.parameters)) {
+            let schema: z.ZodTypeAny = {
+                'string': z.string(),
+                'number': z.number(),
+                'boolean': z.boolean(),
+                'string[]': z.array(z.string())
+            }[parameter.type];
+            if (parameter.default !== undefined) schema = schema.default(parameter.default);
+            else if (!parameter.required) schema = schema.optional();
+            shape[name] = schema;
+        }
+        const parsed = z.object(shape).strict().safeParse(params);
+        if (!parsed.success) {
+            const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'params'}: ${issue.message}`).join('; ');
+            throw new ToolError('INVALID_ARGUMENT', `Invalid parameters for recipe ${recipe.name}: ${issues}`);
+        }
+        return parsed.data;
+    }
+
+    // Inject the recipe as a kept-alive script named after it (unless a script ID is given)
+    static async run(sessionId: string, name: string, params: Record<string, any>, scriptId?: string, limits: CallLimits = {}) {
+        const recipe = this.get(name);
+        const resolved = this.params(recipe, params);
+        const source = `const RECIPE_PARAMS = ${JSON.stringify(resolved)};\n${recipe.source}`;
+        const id = scriptId ?? `recipe_${recipe.name}`;
+
+        const activeSession = SessionManager.get(sessionId);
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+        if (activeSession.scripts.has(id)) {
+            throw new ToolError('INVALID_ARGUMENT', `Recipe ${recipe.name} is already loaded in session ${sessionId} as script ${id}. Call reload_script to restart it, unload_script to remove it, or pass another script_id.`);
+        }
+        if (recipe.platforms.length > 0) {
+            const platform = await this.platform(activeSession.device);
+            if (platform !== null && !recipe.platforms.includes(platform)) {
+                throw new ToolError('NOT_SUPPORTED', `Recipe ${recipe.name} supports ${recipe.platforms.join(', ')}, but session ${sessionId} runs on ${platform}`);
+            }
+        }
+
+        let result: any;
+        if (recipe.compile) {
+            const compiled = await AgentCompiler.compile({ source, language: recipe.language });
+            result = { ...await SessionManager.loadBundle(sessionId, compiled.bundle, true, id, limits), bundle_hash: compiled.hash, cached: compiled.cached };
+        } else {
+            result = await SessionManager.execute(sessionId, source, true, id, limits);
+        }
+
+        const entry = SessionManager.get(sessionId)?.scripts.get(id);
+        if (entry) entry.recipe = `${recipe.name}@${recipe.version}`;
+        return { ...result, recipe: recipe.name, version: recipe.version, params: resolved };
+    }
+
+    // OS of the device (android, ios, linux, macos, ...); null when the device cannot tell, which does not block a recipe
+    private static async platform(device: Device): Promise<string | null> {
+        try {
+            return (await device.querySystemParameters()).os?.id ?? null;
+        } catch {
+            return null;
+        }
+    }
+}
+
+const recipes = RecipeLibrary.load(RECIPES_DIR);
+
+// --- Policy ---
+// Loaded once at startup from --policy <file> or FRIDA_MCP_POLICY. Without a policy everything is allowed.
+// Patterns are compiled while the policy loads, so a bad regular expression fails at startup.
+const patternList = z.array(z.string().transform((pattern, ctx) => {
+    try {
+        return compilePattern(pattern);
+    } catch (e: any) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Invalid pattern ${pattern}: ${e.message}` });
+        return z.NEVER;
+    }
+})).optional();
+const policySchema = z.object({
+    devices: z.object({ allow: patternList, deny: patternList }).optional(),
+    processes: z.object({ allow: patternList, deny: patternList }).optional(),
+    tools: z.object({ allow: patternList, deny: patternList }).optional(),
+    read_only: z.boolean().optional().default(false),
+    confirm: z.array(z.string()).optional().default([]),
+    workspace: z.array(z.string()).optional().default([])
+}).strict();
+
+type Policy = z.infer<typeof policySchema>;
+
+// Tools that change the target or the device (or run arbitrary code that could); blocked in read-only mode.
+// Adding remote devices is included: it makes the server connect to arbitrary host:port targets.
+const MUTATING_TOOLS = new Set([
+    'spawn_process', 'resume_process', 'kill_process', 'launch_and_instrument', 'add_remote_device', 'remove_remote_device',
+    'execute_in_session', 'load_script_file', 'compile_agent', 'reload_script', 'call_script_function', 'post_message_to_session',
+    'write_memory', 'hook_function', 'start_trace', 'start_coverage',
+    'enable_spawn_gating', 'enable_child_gating', 'replay_recording', 'run_recipe', 'register_script_library'
+]);
+
+function cliOption(name: string): string | undefined {
+    const index = process.argv.indexOf(`--${name}`);
+    if (index !== -1) return process.argv[index + 1];
+    return process.argv.find(arg => arg.startsWith(`--${name}=`))?.substring(name.length + 3);
+}
+
+function loadPolicy(): Policy | null {
+    const file = cliOption('policy') ?? process.env.FRIDA_MCP_POLICY;
+    if (!file) return null;
+    try {
+        return policySchema.parse(JSON.parse(readFileSync(file, 'utf8')));
+    } catch (e: any) {
+        console.error(`Invalid policy file ${file}: ${e.message}`);
+        process.exit(1);
+    }
+}
+
+// Globs ('com.example.*') match case-insensitively; '/.../' is a regular expression
+function compilePattern(pattern: string): RegExp {
+    if (pattern.length > 1 && pattern.startsWith('/') && pattern.endsWith('/')) return new RegExp(pattern.slice(1, -1));
+    const escaped = pattern.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+    return new RegExp(`^${escaped}$`, 'i');
+}
+
+const policy = loadPolicy();
+if (policy) console.error(`Policy loaded${policy.read_only ? ' (read-only)' : ''}`);
+
+// Directories on the server host that tools may read agents and recordings from or write output to:
+// the policy's workspace list plus --workspace <dir> / FRIDA_MCP_WORKSPACE (separated like PATH)
+const WORKSPACE_ROOTS = [
+    ...(policy?.workspace ?? []),
+    ...(cliOption('workspace') !== undefined ? [cliOption('workspace')!] : []),
+    ...(process.env.FRIDA_MCP_WORKSPACE?.split(path.delimiter).filter(Boolean) ?? [])
+].map(root => path.resolve(root));
+
+// Resolve symlinks in the part of the path that exists, so a link can't point out of the workspace
+function realPath(file: string): string {
+    try {
+        return realpathSync(file);
+    } catch {
+        const parent = path.dirname(file);
+        return parent === file ? file : path.join(realPath(parent), path.basename(file));
+    }
+}
+
+class PolicyEngine {
+    static allowed(rules: { allow?: RegExp[]; deny?: RegExp[] } | undefined, ...names: string[]): boolean {
+        if (!rules) return true;
+        const matches = (patterns: RegExp[]) => patterns.some(pattern => names.some(name => pattern.test(name)));
+        if (rules.deny && matches(rules.deny)) return false;
+        return !rules.allow || rules.allow.length === 0 || matches(rules.allow);
+    }
+
+    static toolEnabled(tool: string): boolean {
+        return this.allowed(policy?.tools, tool);
+    }
+
+    static deviceAllowed(deviceId: string): boolean {
+        return this.allowed(policy?.devices, deviceId);
+    }
+
+    static assertDevice(deviceId: string) {
+        if (!this.deviceAllowed(deviceId)) {
+            throw new ToolError('PERMISSION_DENIED', `Device ${deviceId} is not allowed by policy`);
+        }
+    }
+
+    // Processes are matched by name / identifier; a path is also matched by its base name
+    static assertProcess(name: string | null, pid?: number) {
+        if (!policy?.processes) return;
+        const names = name ? [name, path.basename(name)] : [];
+        if (names.length === 0 || !this.allowed(policy.processes, ...names)) {
+            throw new ToolError('PERMISSION_DENIED', `Process ${name ?? pid} is not allowed by policy`);
+        }
+    }
+
+    // Host paths must lie inside a workspace root. Without one, stdio (a local user) may use any path,
+    // while HTTP clients, which may be remote, get no host file access at all.
+    static assertPath(file: string): string {
+        const resolved = path.resolve(file);
+        if (WORKSPACE_ROOTS.length === 0) {
+            if (TRANSPORT !== 'http') return resolved;
+            throw new ToolError('PERMISSION_DENIED', `Host file access over HTTP needs a workspace (--workspace <dir>); refusing ${file}`);
+        }
+        const real = realPath(resolved);
+        const inside = WORKSPACE_ROOTS.some(root => {
+            const relative = path.relative(realPath(root), real);
+            return relative === '' || (relative !== '..' && !relative.startsWith(`..${path.sep}`) && !path.isAbsolute(relative));
+        });
+        if (!inside) throw new ToolError('PERMISSION_DENIED', `${file} is outside the workspace (${WORKSPACE_ROOTS.join(', ')})`);
+        return resolved;
+    }
+
+    static async processName(device: Device, pid: number): Promise<string | null> {
+        const [info] = await device.enumerateProcesses({ pids: [pid] });
+        if (info) return info.name;
+        const spawn = (await device.enumeratePendingSpawn()).find(s => s.pid === pid);
+        return spawn?.identifier ?? null;
+    }
+
+    // Runs before every tool handler; returns the reason the call is denied, or null
+    static async check(tool: string, args: any, extra: { signal: AbortSignal }, server: McpServer): Promise<ToolError | null> {
+        if (!policy) return null;
+        try {
+            if (!this.toolEnabled(tool)) throw new ToolError('PERMISSION_DENIED', `Tool ${tool} is disabled by policy`);
+            if (policy.read_only && MUTATING_TOOLS.has(tool)) {
+                throw new ToolError('PERMISSION_DENIED', `Tool ${tool} is not available in read-only mode`);
+            }
+
+            if (typeof args?.device_id === 'string') this.assertDevice(args.device_id);
+            if (typeof args?.session_id === 'string') {
+                const activeSession = SessionManager.get(args.session_id);
+                if (activeSession) {
+                    this.assertDevice(activeSession.device.id);
+                    this.assertProcess(activeSession.processName, activeSession.pid);
+                }
+            }
+            if (typeof args?.program === 'string') this.assertProcess(args.program);
+            if (typeof args?.pid === 'number' && policy.processes) {
+                const device = await resolveDevice(args.device_id);
+                this.assertProcess(await this.processName(device, args.pid), args.pid);
+            }
+
+            if (policy.confirm.includes(tool)) await this.confirm(server, tool, args, extra.signal);
+            return null;
+        } catch (e: any) {
+            return e instanceof ToolError ? e : new ToolError('PERMISSION_DENIED', `Policy check for ${tool} failed: ${e.message}`, e);
+        }
+    }
+
+    // Ask the user through MCP elicitation; clients that cannot ask are denied
+    private static async confirm(server: McpServer, tool: string, args: any, signal: AbortSignal) {
+        if (!server.server.getClientCapabilities()?.elicitation) {
+            throw new ToolError('PERMISSION_DENIED', `Tool ${tool} requires confirmation, but the client does not support elicitation`);
+        }
+        const answer = await server.server.elicitInput({
+            message: `Allow ${tool} with arguments ${JSON.stringify(args)}?`,
+            requestedSchema: {
+                type: 'object',
+                properties: { allow: { type: 'boolean', title: `Allow ${tool}` } },
+                required: ['allow']
+            }
+        }, { signal });
+        if (answer.action !== 'accept' || answer.content?.allow !== true) {
+            throw new ToolError('PERMISSION_DENIED', `Tool ${tool} was not confirmed by the user`);
+        }
+    }
+}
+
+// --- Audit Log ---
+// With --audit-log <file> (or FRIDA_MCP_AUDIT_LOG) every tool call, injected script source and script message is
+// appended to the file as one JSON line, tagged with its session ID. Once the file exceeds FRIDA_MCP_AUDIT_MAX_BYTES
+// it is rotated to <file>.1, <file>.2, ... keeping FRIDA_MCP_AUDIT_MAX_FILES old files. Lines go through a buffered
+// stream so logging never blocks the event loop. The file is created readable by its owner only, since it holds
+// script sources, hooked arguments and memory dumps.
+const AUDIT_LOG_PATH = cliOption('audit-log') ?? process.env.FRIDA_MCP_AUDIT_LOG;
+const AUDIT_MAX_BYTES = Number(process.env.FRIDA_MCP_AUDIT_MAX_BYTES) || 10 * 1024 * 1024;
+const AUDIT_MAX_FILES = Number(process.env.FRIDA_MCP_AUDIT_MAX_FILES) || 5;
+
+// Calls replay_recording re-runs, in recorded order
+const REPLAYABLE_TOOLS = new Set(['spawn_process', 'resume_process', 'create_interactive_session', 'execute_in_session', 'call_script_function']);
+
+interface AuditEntry {
+    ts: string;
+    type: 'tool_call' | 'script_source' | 'script_message';
+    client?: string;
+    session_id?: string;
+    [key: string]: any;
+}
+
+class AuditLog {
+    private static stream: WriteStream | null = null;
+    private static written: Promise<void> = Promise.resolve();
+    private static size = -1;
+    // Lines written while the file is being rotated, appended to the new file once it is done
+    private static rotating: Promise<void> | null = null;
+    private static backlog: string[] = [];
+
+    // The JSON payload of a formatText result, or the raw content for anything else
+    static parseResult(result: any): any {
+        const content = result?.content;
+        if (Array.isArray(content) && content.length === 1 && content[0].type === 'text') {
+            try {
+                return JSON.parse(content[0].text);
+            } catch {
+                return content[0].text;
+            }
+        }
+        return content;
+    }
+
+    static toolCall(tool: string, args: any, result: any, durationMs: number) {
+        const parsed = this.parseResult(result);
+        this.write({
+            type: 'tool_call',
+            session_id: args?.session_id ?? parsed?.session_id,
+            tool,
+            args,
+            result: parsed,
+            is_error: !!result?.isError,
+            duration_ms: durationMs
+        });
+    }
+
+    static scriptSource(sessionId: string, scriptId: string, kind: 'code' | 'bundle' | 'agent', source: string) {
+        this.write({ type: 'script_source', session_id: sessionId, script_id: scriptId, kind, source });
+    }
+
+    static scriptMessage(sessionId: string, entry: QueuedMessage) {
+        this.write({
+            type: 'script_message',
+            session_id: sessionId,
+            script_id: entry.script_id,
+            cursor: entry.cursor,
+            message: entry.message,
+            data: entry.data ? entry.data.toString('base64') : null
+        });
+    }
+
+    static read(file: string): AuditEntry[] {
+        if (!existsSync(file)) throw new ToolError('INVALID_ARGUMENT', `Audit log ${file} not found`);
+        return readFileSync(file, 'utf8').split('\n').flatMap((line, index) => {
+            if (!line.trim()) return [];
+            try {
+                return [JSON.parse(line)];
+            } catch {
+                throw new ToolError('INVALID_ARGUMENT', `${file}:${index + 1} is not a valid audit log line`);
+            }
+        });
+    }
+
+    // Wait until every line logged so far is in the file (before replaying the live log)
+    static async flush(): Promise<void> {
+        while (this.rotating) await this.rotating;
+        await this.written;
+    }
+
+    // Flush buffered lines and close the file (on shutdown)
+    static async close(): Promise<void> {
+        while (this.rotating) await this.rotating;
+        const stream = this.stream;
+        this.stream = null;
+        if (stream) await new Promise<void>(resolve => stream.end(resolve));
+    }
+
+    // Logging must never break the tool call it records
+    private static write(entry: Omit<AuditEntry, 'ts'>) {
+        if (!AUDIT_LOG_PATH) return;
+        try {
+            this.append(AUDIT_LOG_PATH, JSON.stringify({ ts: new Date().toISOString(), client: clientContext.getStore()?.id, ...entry }) + '\n');
+        } catch (e) {
+            console.error(`Audit log write failed: ${e}`);
+        }
+    }
+
+    private static append(file: string, line: string) {
+        if (this.rotating) {
+            this.backlog.push(line);
+            return;
+        }
+        const bytes = Buffer.byteLength(line);
+        if (this.size < 0) this.size = existsSync(file) ? statSync(file).size : 0;
+        if (this.size > 0 && this.size + bytes > AUDIT_MAX_BYTES) {
+            this.backlog.push(line);
+            this.rotating = this.rotate(file);
+            return;
+        }
+        if (!this.stream) {
+            this.stream = createWriteStream(file, { flags: 'a', mode: 0o600 });
+            this.stream.on('error', e => console.error(`Audit log write failed: ${e}`));
+        }
+        const stream = this.stream;
+        this.written = new Promise(resolve => stream.write(line, () => resolve()));
+        this.size += bytes;
+    }
+
+    private static async rotate(file: string) {
+        const stream = this.stream;
+        this.stream = null;
+        try {
+            if (stream) await new Promise<void>(resolve => stream.end(resolve));
+            for (let i = AUDIT_MAX_FILES - 1; i >= 1; i--) {
+                await rename(`${file}.${i}`, `${file}.${i + 1}`).catch(() => { });
+            }
+            await rename(file, `${file}.1`);
+        } catch (e) {
+            console.error(`Audit log rotation failed: ${e}`);
+        }
+        this.size = 0;
+        this.rotating = null;
+        const backlog = this.backlog;
+        this.backlog = [];
+        for (const line of backlog) this.append(file, line);
+    }
+}
+
+interface ReplayOptions {
+    deviceId?: string;
+    sessionId?: string;
+    pidMap?: Record<string, number>;
+    stopOnError: boolean;
+}
+
+// Re-runs recorded calls through the registry. PIDs, session IDs and generated script IDs from the
+// recording are mapped to the ones the replay produces as it goes.
+class Replayer {
+    static async replay(file: string, options: ReplayOptions, extra: ToolExtra) {
+        await AuditLog.flush();
+        const calls = this.select(AuditLog.read(file), options.sessionId);
+        const pids = new Map(Object.entries(options.pidMap ?? {}).map(([recorded, pid]) => [Number(recorded), pid]));
+        const sessionIds = new Map<string, string>();
+        const scriptIds = new Map<string, string>();
+        const steps: any[] = [];
+
+        for (const call of calls) {
+            let args: any = call.args;
+            let result: any;
+            try {
+                args = this.remap(call, options.deviceId, pids, sessionIds, scriptIds);
+                result = await registry.dispatch(call.tool, args, extra);
+            } catch (e: any) {
+                result = errorResult(e);
+            }
+
+            const parsed = AuditLog.parseResult(result);
+            const ok = !result.isError && parsed?.status !== 'error';
+            if (ok) {
+                if (typeof call.result?.pid === 'number' && typeof parsed?.pid === 'number') pids.set(call.result.pid, parsed.pid);
+                if (call.result?.session_id && parsed?.session_id) sessionIds.set(call.result.session_id, parsed.session_id);
+                if (call.result?.script_id && parsed?.script_id) scriptIds.set(call.result.script_id, parsed.script_id);
+            }
+            steps.push({ tool: call.tool, recorded_at: call.ts, status: ok ? 'success' : 'error', args, result: parsed });
+            if (!ok && options.stopOnError) break;
+        }
+
+        return {
+            status: steps.length === calls.length && steps.every(step => step.status === 'success') ? 'success' : 'error',
+            recorded_calls: calls.length,
+            replayed: steps.length,
+            steps,
+            pid_map: Object.fromEntries(pids),
+            session_map: Object.fromEntries(sessionIds),
+            script_map: Object.fromEntries(scriptIds)
+        };
+    }
+
+    // Successful replayable calls, optionally narrowed to one recorded session and the process it attached to
+    private static select(entries: AuditEntry[], sessionId?: string): AuditEntry[] {
+        const calls = entries.filter(e => e.type === 'tool_call' && REPLAYABLE_TOOLS.has(e.tool) && !e.is_error && e.result?.status !== 'error');
+        if (!sessionId) return calls;
+
+        const attach = calls.find(e => e.tool === 'create_interactive_session' && e.result?.session_id === sessionId);
+        if (!attach) throw new ToolError('INVALID_ARGUMENT', `Session ${sessionId} was not created in this recording`);
+        const pid = attach.args.process_id;
+        return calls.filter(e => e.session_id === sessionId
+            || (e.tool === 'spawn_process' && e.result?.pid === pid)
+            || (e.tool === 'resume_process' && e.args.pid === pid));
+    }
+
+    private static remap(call: AuditEntry, deviceId: string | undefined, pids: Map<number, number>, sessionIds: Map<string, string>, scriptIds: Map<string, string>) {
+        const args = { ...call.args };
+        const mapPid = (pid: number) => {
+            const mapped = pids.get(pid);
+            if (mapped === undefined) {
+                throw new ToolError('INVALID_ARGUMENT', `Recorded PID ${pid} was not spawned during the replay; map it with pid_map`);
+            }
+            return mapped;
+        };
+
+        if (deviceId && call.tool !== 'execute_in_session' && call.tool !== 'call_script_function') args.device_id = deviceId;
+        if (call.tool === 'create_interactive_session') args.process_id = mapPid(args.process_id);
+        if (call.tool === 'resume_process') args.pid = mapPid(args.pid);
+        if (typeof args.session_id === 'string') {
+            const mapped = sessionIds.get(args.session_id);
+            if (!mapped) throw new ToolError('SESSION_NOT_FOUND', `Recorded session ${args.session_id} was not recreated during the replay`);
+            args.session_id = mapped;
+        }
+        if (typeof args.script_id === 'string' && scriptIds.has(args.script_id)) args.script_id = scriptIds.get(args.script_id);
+        return args;
+    }
+}
+
+// --- Server Setup ---
+// Tools and resources are declared once on the registry and installed on a fresh McpServer for every
+// connected client (one for stdio, one per HTTP/SSE session), since an McpServer serves a single transport.
+type ToolExtra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+interface ToolRegistration<Schema extends z.ZodTypeAny = z.ZodTypeAny> {
+    name: string;
+    config: { title?: string; description?: string; inputSchema: Schema; annotations?: ToolAnnotations };
+    handler: (args: z.output<Schema>, extra: ToolExtra) => CallToolResult | Promise<CallToolResult>;
+}
+
+// The two registerResource overloads: a fixed URI, or a URI template
+type ResourceRegistration =
+    | [name: string, uri: string, config: ResourceMetadata, read: ReadResourceCallback]
+    | [name: string, template: ResourceTemplate, config: ResourceMetadata, read: ReadResourceTemplateCallback];
+
+type PromptRegistration = Parameters<McpServer['registerPrompt']>;
+
+const isTemplateResource = (registration: ResourceRegistration): registration is Extract<ResourceRegistration, [string, ResourceTemplate, ...unknown[]]> =>
+    registration[1] instanceof ResourceTemplate;
+
+class ServerRegistry {
+    private tools = new Map<string, ToolRegistration>();
+    private resources: ResourceRegistration[] = [];
+    private prompts: PromptRegistration[] = [];
+
+    registerTool<Schema extends z.ZodTypeAny>(name: string, config: ToolRegistration<Schema>['config'], handler: ToolRegistration<Schema>['handler']) {
+        this.tools.set(name, { name, config, handler });
+    }
+
+    registerResource(name: string, uri: string, config: ResourceMetadata, read: ReadResourceCallback): void;
+    registerResource(name: string, template: ResourceTemplate, config: ResourceMetadata, read: ReadResourceTemplateCallback): void;
+    registerResource(...registration: ResourceRegistration) {
+        this.resources.push(registration);
+    }
+
+    registerPrompt(...registration: PromptRegistration) {
+        this.prompts.push(registration);
+    }
+
+    createServer(clientId: string): McpServer {
+        const server = new McpServer(
+            {
+                name: "frida-mcp-node",
+                version: "1.0.0"
+            },
+            {
+                capabilities: {
+                    tools: {}, // Capability declaration
+                    resources: { subscribe: true, listChanged: true }
+                }
+            }
+        );
+        const scoped = <Args extends unknown[], Result>(fn: (...args: Args) => Result) =>
+            (...args: Args): Result => clientContext.run({ id: clientId, server }, () => fn(...args));
+
+        // Every handler runs inside the client's context. Tools disabled by policy are not listed at all.
+        for (const { name, config } of this.tools.values()) {
+            const registered = server.registerTool(name, config, scoped((args: unknown, extra: ToolExtra) => this.dispatch(name, args, extra)));
+            if (!PolicyEngine.toolEnabled(name)) registered.disable();
+        }
+        // Resource reads and listings see the same sessions as the client's tool calls
+        for (const registration of this.resources) {
+            if (isTemplateResource(registration)) {
+                const [name, template, config, read] = registration;
+                const list = template.listCallback;
+                server.registerResource(name, new ResourceTemplate(template.uriTemplate, { list: list && scoped(list) }), config, scoped(read));
+            } else {
+                const [name, uri, config, read] = registration;
+                server.registerResource(name, uri, config, scoped(read));
+            }
+        }
+        ResourceNotifier.attach(server, clientId);
+        for (const [name, config, callback] of this.prompts) server.registerPrompt(name, config, scoped(callback));
+        return server;
+    }
+
+    // Run a tool the way a client call does: behind the policy guard, so no handler touches Frida
+    // before the check, and with the call written to the audit log. Also used by replay_recording.
+    async dispatch(name: string, args: unknown, extra: ToolExtra): Promise<CallToolResult> {
+        const tool = this.tools.get(name);
+        if (!tool) throw new ToolError('INVALID_ARGUMENT', `Unknown tool ${name}`);
+
+        const started = Date.now();
+        try {
+            const denied = await PolicyEngine.check(name, args, extra, clientContext.getStore()!.server);
+            const result = denied ? errorResult(denied) : await tool.handler(args, extra);
+            AuditLog.toolCall(name, args, result, Date.now() - started);
+            return result;
+        } catch (e: any) {
+            AuditLog.toolCall(name, args, errorResult(e), Date.now() - started);
+            throw e;
+        }
+    }
+}
+
+const registry = new ServerRegistry();
+
+// --- Resources ---
+// Clients subscribe to resource URIs. State changes mark a subscribed URI dirty and each subscriber gets one
+// resources/updated per URI per debounce window, so a burst of script messages is a single notification.
+const RESOURCE_UPDATE_DEBOUNCE_MS = 100;
+const DEVICES_URI = 'frida://devices';
+const sessionUri = (sessionId: string) => `frida://sessions/${sessionId}`;
+const sessionMessagesUri = (sessionId: string) => `frida://sessions/${sessionId}/messages`;
+const sessionIdOf = (uri: string) => /^frida:\/\/sessions\/([^/]+)/.exec(uri)?.[1];
+
+interface Subscriber {
+    client: string;
+    uris: Set<string>;
+}
+
+class ResourceNotifier {
+    private static subscriptions = new Map<McpServer, Subscriber>();
+    private static pending = new Set<string>();
+    private static timer: NodeJS.Timeout | null = null;
+    private static watchingDevices = false;
+
+    static attach(server: McpServer, client: string) {
+        this.subscriptions.set(server, { client, uris: new Set() });
+        server.server.setRequestHandler(SubscribeRequestSchema, async request => {
+            const { uri } = request.params;
+            // A client can only follow sessions it could read: not another client's private ones
+            const sessionId = sessionIdOf(uri);
+            if (sessionId !== undefined && !SessionManager.visibleTo(sessionId, client)) {
+                throw new ToolError('SESSION_NOT_FOUND', `Session ${sessionId} not found`);
+            }
+            this.subscriptions.get(server)?.uris.add(uri);
+            if (uri === DEVICES_URI) this.watchDevices();
+            return {};
+        });
+        server.server.setRequestHandler(UnsubscribeRequestSchema, async request => {
+            this.subscriptions.get(server)?.uris.delete(request.params.uri);
+            return {};
+        });
+    }
+
+    static detach(server: McpServer) {
+        this.subscriptions.delete(server);
+    }
+
+    static updated(uri: string) {
+        if (!Array.from(this.subscriptions.values()).some(subscriber => subscriber.uris.has(uri))) return;
+        this.pending.add(uri);
+        this.timer ??= setTimeout(() => this.flush(), RESOURCE_UPDATE_DEBOUNCE_MS);
+    }
+
+    // Sessions or devices came or went: templated resource listings changed
+    static listChanged() {
+        for (const server of this.subscriptions.keys()) {
+            if (server.isConnected()) server.server.sendResourceListChanged().catch(() => { });
+        }
+    }
+
+    private static flush() {
+        this.timer = null;
+        const uris = Array.from(this.pending);
+        this.pending.clear();
+        for (const [server, { client, uris: subscribed }] of this.subscriptions) {
+            for (const uri of uris) {
+                if (!subscribed.has(uri)) continue;
+                const sessionId = sessionIdOf(uri);
+                if (sessionId !== undefined && !SessionManager.visibleTo(sessionId, client)) continue;
+                server.server.sendResourceUpdated({ uri }).catch(() => this.detach(server));
+            }
+        }
+    }
+
+    // Device add/remove is only watched once a client subscribes to the device list
+    private static watchDevices() {
+        if (this.watchingDevices) return;
+        this.watchingDevices = true;
+        const changed = () => {
+            this.updated(DEVICES_URI);
+            this.listChanged();
+        };
+        const manager = frida.getDeviceManager();
+        manager.added.connect(changed);
+        manager.removed.connect(changed);
+    }
+}
+
+const jsonResource = (uri: URL, data: any) => ({
+    contents: [{ uri: uri.href, mimeType: 'application/json', text: JSON.stringify(data, null, 2) }]
+});
+
+async function allowedDevices() {
+    return (await frida.enumerateDevices()).filter(d => PolicyEngine.deviceAllowed(d.id));
+}
+
+registry.registerResource(
+    "devices",
+    DEVICES_URI,
+    {
+        description: "Connected devices (subscribe to be notified when one is added or removed).",
+        mimeType: 'application/json'
+    },
+    async uri => jsonResource(uri, (await allowedDevices()).map(d => ({ id: d.id, name: d.name, type: d.type })))
+);
+
+registry.registerResource(
+    "device-processes",
+    new ResourceTemplate("frida://devices/{id}/processes", {
+        list: async () => ({
+            resources: (await allowedDevices()).map(d => ({
+                uri: `frida://devices/${encodeURIComponent(d.id)}/processes`,
+                name: `Processes on ${d.name}`
+            }))
+        })
+    }),
+    {
+        description: "Processes running on a device.",
+        mimeType: 'application/json'
+    },
+    async (uri, { id }) => {
+        const device = await resolveDevice(decodeURIComponent(String(id)));
+        const processes = await device.enumerateProcesses();
+        return jsonResource(uri, processes.map(p => ({ pid: p.pid, name: p.name })));
+    }
+);
+
+registry.registerResource(
+    "session",
+    new ResourceTemplate("frida://sessions/{id}", {
+        list: async () => ({
+            resources: SessionManager.list().sessions.map(s => ({
+                uri: sessionUri(s.session_id),
+                name: `${s.process_name ?? s.pid} on ${s.device_name}`
+            }))
+        })
+    }),
+    {
+        description: "State of an interactive session, or its detach record once it is gone (subscribe to be notified on detach, resume and reattach).",
+        mimeType: 'application/json'
+    },
+    async (uri, { id }) => {
+        const activeSession = SessionManager.get(String(id));
+        if (activeSession) return jsonResource(uri, SessionManager.describe(activeSession));
+        const detached = SessionManager.detachRecord(String(id));
+        if (!detached) throw new ToolError('SESSION_NOT_FOUND', `Session ${id} not found`);
+        return jsonResource(uri, { session_id: detached.session_id, state: 'detached', detach: detached });
+    }
+);
+
+registry.registerResource(
+    "session-messages",
+    new ResourceTemplate("frida://sessions/{id}/messages", { list: undefined }),
+    {
+        description: "Queued script messages of a session, read without removing them (subscribe to be notified when new messages arrive).",
+        mimeType: 'application/json'
+    },
+    async (uri, { id }) => {
+        const activeSession = SessionManager.get(String(id));
+        if (!activeSession) throw new ToolError('SESSION_NOT_FOUND', `Session ${id} not found`);
+        const queue = activeSession.messageQueue;
+        return jsonResource(uri, {
+            messages: queue.query({}, true).map(entry => Serializer.message(entry)),
+            next_cursor: queue.lastCursor,
+            queued: queue.size,
+            capacity: queue.capacity,
+            dropped: queue.dropped
+        });
+    }
+);
+
+registry.registerResource(
+    "blob",
+    new ResourceTemplate("frida://blobs/{id}", { list: undefined }),
+    {
+        description: "Full value of a result or message that was too large to inline (see resource_uri in tool responses)."
+    },
+    async (uri, { id }) => {
+        const blob = Serializer.getBlob(String(id));
+        if (!blob) throw new Error(`Blob ${id} not found (it may have been evicted)`);
+        return {
+            contents: [blob.mimeType === 'application/json'
+                ? { uri: uri.href, mimeType: blob.mimeType, text: blob.data.toString('utf8') }
+                : { uri: uri.href, mimeType: blob.mimeType, blob: blob.data.toString('base64') }]
+        };
+    }
+);
+
+// --- Prompts ---
+// Every recipe is also a prompt: its arguments are the recipe parameters (as strings, per MCP) and the
+// prompt asks the model to call run_recipe with them.
+function promptValue(parameter: RecipeParameter, value: string): any {
+    if (parameter.type === 'number' && value.trim() !== '' && !isNaN(Number(value))) return Number(value);
+    if (parameter.type === 'boolean' && (value === 'true' || value === 'false')) return value === 'true';
+    if (parameter.type === 'string[]') {
+        try {
+            const parsed = JSON.parse(value);
+            if (Array.isArray(parsed)) return parsed;
+        } catch { }
+        return value.split(',').map(item => item.trim()).filter(Boolean);
+    }
+    return value;
+}
+
+for (const recipe of recipes.values()) {
+    const argsSchema: Record<string, z.ZodTypeAny> = {
+        session_id: z.string().optional().describe("Session to inject the recipe into.")
+    };
+    for (const [name, parameter] of Object.entries(recipe.parameters)) {
+        const fallback = parameter.default !== undefined ? ` Default: ${JSON.stringify(parameter.default)}.` : '';
+        argsSchema[name] = z.string().optional().describe(`${parameter.description} (${parameter.type})${fallback}`);
+    }
+
+    registry.registerPrompt(
+        recipe.name,
+        {
+            title: `${recipe.name} v${recipe.version}`,
+            description: recipe.description,
+            argsSchema
+        },
+        ({ session_id, ...args }: Record<string, string | undefined>) => {
+            const params: Record<string, any> = {};
+            for (const [name, value] of Object.entries(args)) {
+                if (value !== undefined && value !== '') params[name] = promptValue(recipe.parameters[name], value);
+            }
+            const call = { recipe: recipe.name, session_id: session_id || '<session_id>', params };
+            return {
+                messages: [{
+                    role: "user" as const,
+                    content: {
+                        type: "text" as const,
+                        text: [
+                            `Run the Frida recipe "${recipe.name}" v${recipe.version} (${recipe.platforms.join(', ') || 'any platform'}): ${recipe.description}`,
+                            `Call the run_recipe tool with:\n${JSON.stringify(call, null, 2)}`,
+                            session_id ? '' : 'Replace <session_id> with the target session (create one with create_interactive_session or launch_and_instrument).',
+                            'The recipe sends { type: "ready", hooked } once installed and reports what it sees as recipe_event messages; read them with get_session_messages or wait_for_message.'
+                        ].filter(Boolean).join('\n\n')
+                    }
+                }]
+            };
+        }
+    );
+}
+
+// --- Tool Registration ---
+
+// Helper to format text content
+const formatText = (data: any) => ({
+    content: [{ type: "text" as const, text: typeof data === 'string' ? data : JSON.stringify(data, null, 2) }]
+});
+
+// The error envelope shared by every tool. `error` repeats the message for older clients.
+const errorResult = (e: any, details: Record<string, any> = {}) => {
+    const code = classifyError(e);
+    const message = String(e?.message ?? e);
+    // Our own errors carry the Frida error (if any) as their cause; anything else came straight from Frida
+    const ours = e instanceof ToolError || e instanceof CompileError || e instanceof TimeoutError || e instanceof CancelledError;
+    const cause = ours ? e.cause : e;
+    return {
+        content: [{
+            type: "text" as const,
+            text: JSON.stringify({
+                status: "error",
+                code,
+                message,
+                error: message,
+                hint: REMEDIATION[code],
+                frida_error: cause instanceof Error ? cause.message : (cause !== undefined ? String(cause) : undefined),
+                timeout_ms: e?.timeoutMs,
+                diagnostics: e?.diagnostics,
+                ...details
+            })
+        }],
+        isError: true
+    };
+};
+
+// 1. Enumerate Devices
+registry.registerTool(
+    "enumerate_devices",
+    {
+        description: "List all connected devices (USB, Local, Remote).",
+        inputSchema: z.object({})
+    },
+    async () => {
+        try {
+            const devices = await frida.enumerateDevices();
+            return formatText(devices.filter(d => PolicyEngine.deviceAllowed(d.id)).map(d => ({
+                id: d.id,
+                name: d.name,
+                type: d.type
+            })));
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 2. Enumerate Processes
+registry.registerTool(
+    "enumerate_processes",
+    {
+        description: "List processes running on a specific device.",
+        inputSchema: z.object({
+            device_id: z.string().optional().describe("Device ID to list processes from. Defaults to USB device.")
+        })
+    },
+    async ({ device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            const processes = await device.enumerateProcesses();
+            return formatText(processes.map(p => ({
+                pid: p.pid,
+                name: p.name
+            })));
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 3. Get Process By Name
+registry.registerTool(
+    "get_process_by_name",
+    {
+        description: "Find a process by its name (case-insensitive substring match).",
+        inputSchema: z.object({
+            name: z.string().describe("Process name or substring to search for."),
+            device_id: z.string().optional().describe("Device ID to search on. Defaults to USB.")
+        })
+    },
+    async ({ name, device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            const processes = await device.enumerateProcesses();
+            const match = processes.find(p => p.name.toLowerCase().includes(name.toLowerCase()));
+
+            if (match) {
+                return formatText({ found: true, pid: match.pid, name: match.name });
+            } else {
+                return errorResult(new ToolError('PROCESS_NOT_FOUND', `No process matching '${name}'`), { found: false });
+            }
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 4. Spawn Process
+const spawnOptionsShape = {
+    program: z.string().describe("Package name or path to executable."),
+    argv: z.array(z.string()).optional().describe("Command line arguments."),
+    env: z.record(z.string()).optional().describe("Environment variables."),
+    cwd: z.string().optional().describe("Working directory for the new process."),
+    stdio: z.enum(["inherit", "pipe"]).optional().describe("'pipe' captures stdout/stderr; for attached sessions it is queued as 'output' messages."),
+    aux: z.record(z.any()).optional().describe("Platform-specific spawn options, e.g. { \"activity\": \".MainActivity\" } on Android or { \"url\": \"myapp://...\" } on iOS.")
+};
+
+// Construct SpawnOptions
+function buildSpawnOptions({ program, argv, env, cwd, stdio, aux }: {
+    program: string;
+    argv?: string[];
+    env?: Record<string, string>;
+    cwd?: string;
+    stdio?: "inherit" | "pipe";
+    aux?: Record<string, any>;
+}): SpawnOptions {
+    const options: SpawnOptions = { ...aux };
+    if (argv) options.argv = [program, ...argv]; // Frida expects argv[0] to be the program usually
+    if (env) options.env = env;
+    if (cwd) options.cwd = cwd;
+    if (stdio) options.stdio = stdio as Stdio;
+    return options;
+}
+
+registry.registerTool(
+    "spawn_process",
+    {
+        description: "Spawn a new process/application.",
+        inputSchema: z.object({
+            ...spawnOptionsShape,
+            device_id: z.string().optional().describe("Device ID to spawn on.")
+        })
+    },
+    async ({ device_id, ...spawnArgs }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            if (spawnArgs.stdio === "pipe") SessionManager.captureOutput(device);
+
+            const pid = await device.spawn(spawnArgs.program, buildSpawnOptions(spawnArgs));
+            return formatText({ pid });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 5. Resume Process
+registry.registerTool(
+    "resume_process",
+    {
+        description: "Resume a paused process (e.g., after spawning).",
+        inputSchema: z.object({
+            pid: z.number().describe("Process ID to resume."),
+            device_id: z.string().optional().describe("Device ID.")
+        })
+    },
+    async ({ pid, device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            await device.resume(pid);
+            return formatText({ success: true, pid });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 6. Kill Process
+registry.registerTool(
+    "kill_process",
+    {
+        description: "Terminate a process.",
+        inputSchema: z.object({
+            pid: z.number().describe("Process ID to kill."),
+            device_id: z.string().optional().describe("Device ID.")
+        })
+    },
+    async ({ pid, device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            await device.kill(pid);
+            return formatText({ success: true, pid });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 7. Create Session
+registry.registerTool(
+    "create_interactive_session",
+    {
+        description: "Attach to a process and create a persistent Frida session.",
+        inputSchema: z.object({
+            process_id: z.number().describe("Target Process ID."),
+            device_id: z.string().optional().describe("Device ID."),
+            message_queue_capacity: z.number().int().positive().optional().describe(`Maximum queued script messages before the oldest are dropped. Defaults to ${DEFAULT_QUEUE_CAPACITY}.`),
+            persist_timeout: z.number().int().min(0).optional().describe("Seconds the server keeps the session alive if the connection drops; the session is resumed automatically when it comes back."),
+            realm: z.enum(["native", "emulated"]).optional().describe("Attach to the native or the emulated realm (e.g. ARM code under translation)."),
+            auto_reattach: z.boolean().optional().default(false).describe("If the process is replaced or restarted, find the new PID, re-attach under the same session ID and re-inject kept-alive scripts."),
+            reattach_timeout_ms: z.number().int().positive().optional().describe(`How long to look for the restarted process. Defaults to ${DEFAULT_REATTACH_TIMEOUT_MS}.`),
+            shared: z.boolean().optional().describe("Over HTTP, make the session visible to every connected client instead of only this one.")
+        })
+    },
+    async ({ process_id, device_id, message_queue_capacity, persist_timeout, realm, auto_reattach, reattach_timeout_ms, shared }) => {
+        try {
+            const sessionId = await SessionManager.create(process_id, device_id, {
+                queueCapacity: message_queue_capacity,
+                persistTimeout: persist_timeout,
+                realm,
+                autoReattach: auto_reattach,
+                reattachTimeoutMs: reattach_timeout_ms,
+                shared
+            });
+            return formatText({
+                status: "success",
+                session_id: sessionId,
+                message: "Session created. Use execute_in_session."
+            });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 8. Execute in Session
+registry.registerTool(
+    "execute_in_session",
+    {
+        description: "Execute JavaScript in an active session (Enforces V8 runtime).",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID from create_interactive_session."),
+            javascript_code: z.string().describe("Frida JavaScript code."),
+            keep_alive: z.boolean().optional().default(false).describe("Keep script loaded for hooks?"),
+            script_id: z.string().optional().describe("Name for the kept-alive script. Generated and returned if omitted."),
+            mode: z.enum(["script", "repl"]).optional().default("script").describe("'script' runs the code in a fresh script. 'repl' evaluates it in the session's persistent global scope (keep_alive and script_id are ignored)."),
+            timeout_ms: z.number().int().positive().optional().default(DEFAULT_TIMEOUT_MS).describe("Give up and unload the script if it has not finished after this many milliseconds."),
+            compile: z.boolean().optional().default(false).describe("Bundle the code with frida.Compiler first (ES modules, TypeScript, imports such as frida-java-bridge). Compiled code runs as a module: there is no return value, use send() for output."),
+            language: z.enum(["javascript", "typescript"]).optional().default("javascript").describe("Source language when compile is set."),
+            runtime: z.enum(["v8", "qjs"]).optional().default("v8").describe("Script runtime. The wrapper is cached as a V8 snapshot or QuickJS bytecode per device."),
+            libraries: z.array(z.string()).optional().describe("Names of libraries from register_script_library to preload (baked into the cached snapshot/bytecode)."),
+            binary_encoding: z.enum(["base64", "hexdump"]).optional().default("base64").describe("How binary data (ArrayBuffers, message data) is encoded in the response.")
+        })
+    },
+    async ({ session_id, javascript_code, keep_alive, script_id, mode, timeout_ms, compile, language, runtime, libraries, binary_encoding }, { signal }) => {
+        try {
+            const limits = { timeoutMs: timeout_ms, signal };
+            if (compile && mode === "repl") {
+                throw new ToolError('INVALID_ARGUMENT', "compile cannot be combined with mode 'repl': compiled code runs as a module, not in the REPL scope");
+            }
+            if (compile) {
+                const compiled = await AgentCompiler.compile({ source: javascript_code, language });
+                const result = await SessionManager.loadBundle(session_id, compiled.bundle, keep_alive, script_id, limits);
+                return formatText({ ...result, bundle_hash: compiled.hash, cached: compiled.cached, diagnostics: compiled.diagnostics });
+            }
+            const result = mode === "repl"
+                ? await SessionManager.evaluate(session_id, javascript_code, limits, binary_encoding)
+                : await SessionManager.execute(session_id, javascript_code, keep_alive, script_id, limits, { runtime: runtime as ScriptRuntime, libraries, binaryEncoding: binary_encoding });
+            return formatText(result);
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 9. Get Messages
+registry.registerTool(
+    "get_session_messages",
+    {
+        description: "Retrieve logs/messages from persistent scripts. Returned messages are removed from the queue unless peek is set.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            since_cursor: z.number().int().optional().describe("Only return messages with a cursor greater than this (use next_cursor from a previous call)."),
+            limit: z.number().int().positive().optional().describe("Maximum number of messages to return."),
+            script_id: z.string().optional().describe("Only return messages from this script."),
+            type: z.array(z.string()).optional().describe("Only return messages whose type (e.g. 'send', 'error') or payload.type is in this list."),
+            payload_contains: z.string().optional().describe("Only return messages whose JSON payload contains this substring."),
+            payload_path: z.string().optional().describe("JSONPath into the message (e.g. '$.payload.event'); only messages where it resolves are returned."),
+            payload_equals: z.any().optional().describe("With payload_path, require the resolved value to equal this."),
+            peek: z.boolean().optional().default(false).describe("Leave returned messages in the queue."),
+            binary_encoding: z.enum(["base64", "hexdump"]).optional().default("base64").describe("How binary data (ArrayBuffers, message data) is encoded in the response.")
+        })
+    },
+    async ({ session_id, since_cursor, limit, script_id, type, payload_contains, payload_path, payload_equals, peek, binary_encoding }) => {
+        const session = SessionManager.get(session_id);
+        if (!session) return errorResult(new ToolError('SESSION_NOT_FOUND', `Session ${session_id} not found`));
+
+        const queue = session.messageQueue;
+        const messages = queue.query({
+            sinceCursor: since_cursor,
+            limit,
+            scriptId: script_id,
+            types: type,
+            payloadContains: payload_contains,
+            payloadPath: payload_path,
+            payloadEquals: payload_equals
+        }, peek);
+        return formatText({
+            status: "success",
+            messages: messages.map(entry => Serializer.message(entry, binary_encoding)),
+            next_cursor: messages.length > 0 ? messages[messages.length - 1].cursor : (since_cursor ?? queue.lastCursor),
+            queued: queue.size,
+            capacity: queue.capacity,
+            dropped: queue.dropped
+        });
+    }
+);
+
+// 10. List Applications
+registry.registerTool(
+    "list_applications",
+    {
+        description: "List installed applications on the device.",
+        inputSchema: z.object({
+            device_id: z.string().optional().describe("Device ID.")
+        })
+    },
+    async ({ device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            // enumerateApplications allows filtering but we'll list all/identifiers
+            const apps = await device.enumerateApplications();
+            return formatText(apps.map(a => ({
+                identifier: a.identifier,
+                name: a.name,
+                pid: a.pid,
+                parameters: a.parameters
+            })));
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 11. Get Frontmost Application
+registry.registerTool(
+    "get_frontmost_application",
+    {
+        description: "Get the application currently visible on screen.",
+        inputSchema: z.object({
+            device_id: z.string().optional().describe("Device ID.")
+        })
+    },
+    async ({ device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            const app = await device.getFrontmostApplication();
+            if (!app) return formatText(null);
+            return formatText({
+                identifier: app.identifier,
+                name: app.name,
+                pid: app.pid,
+                parameters: app.parameters
+            });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 12. Call Script Function (RPC)
+registry.registerTool(
+    "call_script_function",
+    {
+        description: "Call an exported function from the Frida script (RPC).",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            function_name: z.string().describe("Name of the exported function to call."),
+            args: z.array(z.any()).optional().default([]).describe("Arguments to pass to the function."),
+            script_id: z.string().optional().describe("Script to call into. Defaults to the most recently loaded script."),
+            timeout_ms: z.number().int().positive().optional().default(DEFAULT_TIMEOUT_MS).describe("Stop waiting for the function's result after this many milliseconds."),
+            binary_encoding: z.enum(["base64", "hexdump"]).optional().default("base64").describe("How binary data (ArrayBuffers, message data) is encoded in the response.")
+        })
+    },
+    async ({ session_id, function_name, args, script_id, timeout_ms, binary_encoding }, { signal }) => {
+        const session = SessionManager.get(session_id);
+        if (!session) return errorResult(new ToolError('SESSION_NOT_FOUND', `Session ${session_id} not found`));
+
+        try {
+            const result = await SessionManager.callFunction(session_id, function_name, args, script_id, { timeoutMs: timeout_ms, signal });
+            return formatText({ status: "success", result: Serializer.value(result, binary_encoding) });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 13. Post Message to Session
+registry.registerTool(
+    "post_message_to_session",
+    {
+        description: "Post a JSON message to the script (received by recv() in Frida).",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            message: z.any().describe("JSON message content."),
+            script_id: z.string().optional().describe("Script to post to. Defaults to the most recently loaded script.")
+        })
+    },
+    async ({ session_id, message, script_id }) => {
+        const session = SessionManager.get(session_id);
+        if (!session) return errorResult(new ToolError('SESSION_NOT_FOUND', `Session ${session_id} not found`));
+
+        try {
+            const { script } = SessionManager.getScript(session_id, script_id);
+            await script.post(message);
+            return formatText({ status: "success", sent: true });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 14. List Scripts
+registry.registerTool(
+    "list_scripts",
+    {
+        description: "List kept-alive scripts loaded in a session.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID.")
+        })
+    },
+    async ({ session_id }) => {
+        try {
+            return formatText({ status: "success", scripts: SessionManager.listScripts(session_id) });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 15. Unload Script
+registry.registerTool(
+    "unload_script",
+    {
+        description: "Unload a kept-alive script (removes its hooks) without detaching the session.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            script_id: z.string().describe("Script ID from execute_in_session or list_scripts.")
+        })
+    },
+    async ({ session_id, script_id }) => {
+        try {
+            // Only once the caller proved it can see the script, so nobody can stop another client's hot reload
+            await SessionManager.unloadScript(session_id, script_id);
+            ScriptFileManager.unwatch(session_id, script_id);
+            return formatText({ status: "success", script_id, unloaded: true });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 16. Reload Script
+registry.registerTool(
+    "reload_script",
+    {
+        description: "Unload a kept-alive script and load it again under the same ID. Scripts from load_script_file are read (and compiled) from disk again; others reuse their original source.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            script_id: z.string().describe("Script ID from execute_in_session or list_scripts.")
+        })
+    },
+    async ({ session_id, script_id }) => {
+        try {
+            const result = await SessionManager.reloadScript(session_id, script_id);
+            return formatText(result);
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 17. Inspect Session Globals
+registry.registerTool(
+    "inspect_session_globals",
+    {
+        description: "List the global names defined so far by execute_in_session calls in 'repl' mode.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID.")
+        })
+    },
+    async ({ session_id }) => {
+        try {
+            const globals = await SessionManager.inspectGlobals(session_id);
+            return formatText({ status: "success", globals });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 18. Wait For Message
+registry.registerTool(
+    "wait_for_message",
+    {
+        description: "Block until a script message matching the given predicate arrives, or the timeout expires. Returns the match plus the messages that arrived before it.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            script_id: z.string().optional().describe("Only match messages from this script."),
+            type: z.array(z.string()).optional().describe("Only match messages whose type or payload.type is in this list."),
+            payload_path: z.string().optional().describe("JSONPath into the message (e.g. '$.payload.method') that must resolve."),
+            payload_equals: z.any().optional().describe("With payload_path, require the resolved value to equal this."),
+            text_regex: z.string().optional().describe("Regular expression tested against the message text (logged lines, string payload or error description)."),
+            since_cursor: z.number().int().optional().describe("Also consider queued messages after this cursor. Defaults to only messages arriving after the call."),
+            timeout_ms: z.number().int().positive().optional().default(DEFAULT_TIMEOUT_MS).describe("How long to wait in milliseconds."),
+            peek: z.boolean().optional().default(false).describe("Leave the returned messages in the queue."),
+            binary_encoding: z.enum(["base64", "hexdump"]).optional().default("base64").describe("How binary data (ArrayBuffers, message data) is encoded in the response.")
+        })
+    },
+    async ({ session_id, script_id, type, payload_path, payload_equals, text_regex, since_cursor, timeout_ms, peek, binary_encoding }, { signal }) => {
+        try {
+            const result = await SessionManager.waitForMessage(session_id, {
+                sinceCursor: since_cursor,
+                scriptId: script_id,
+                types: type,
+                payloadPath: payload_path,
+                payloadEquals: payload_equals,
+                textPattern: text_regex !== undefined ? new RegExp(text_regex) : undefined
+            }, peek, { timeoutMs: timeout_ms, signal });
+            return formatText({
+                ...result,
+                message: Serializer.message(result.message, binary_encoding),
+                preceding: result.preceding.map((entry: QueuedMessage) => Serializer.message(entry, binary_encoding))
+            });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 19. Enable Spawn Gating
+registry.registerTool(
+    "enable_spawn_gating",
+    {
+        description: "Suspend every newly launched process on the device until it is resumed. Optionally auto-attach and inject a script into matching spawns before resuming them.",
+        inputSchema: z.object({
+            device_id: z.string().optional().describe("Device ID. Defaults to USB device."),
+            auto_attach_code: z.string().optional().describe("If set, attach to each matching spawn, load this code as a kept-alive script, then resume it."),
+            identifier_filter: z.string().optional().describe("Only auto-attach to spawns whose identifier contains this substring (case-insensitive)."),
+            resume: z.boolean().optional().default(true).describe("Resume auto-attached spawns once the script is loaded."),
+            resume_unmatched: z.boolean().optional().default(true).describe("With identifier_filter, resume spawns that do not match instead of leaving them pending.")
+        })
+    },
+    async ({ device_id, auto_attach_code, identifier_filter, resume, resume_unmatched }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            const policy = auto_attach_code !== undefined
+                ? { code: auto_attach_code, identifierFilter: identifier_filter, resume, resumeUnmatched: resume_unmatched, owner: clientContext.getStore()?.id }
+                : undefined;
+            await GatingManager.enableSpawnGating(device, policy);
+            return formatText({ status: "success", device_id: device.id, spawn_gating: true, auto_attach: !!policy });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 20. Disable Spawn Gating
+registry.registerTool(
+    "disable_spawn_gating",
+    {
+        description: "Stop suspending newly launched processes on the device. Already pending spawns stay suspended until resumed.",
+        inputSchema: z.object({
+            device_id: z.string().optional().describe("Device ID. Defaults to USB device.")
+        })
+    },
+    async ({ device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            await GatingManager.disableSpawnGating(device);
+            return formatText({ status: "success", device_id: device.id, spawn_gating: false });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 21. List Pending Spawns
+registry.registerTool(
+    "list_pending_spawns",
+    {
+        description: "List spawns currently suspended by spawn gating, plus the spawns observed since gating was enabled (with any auto-attach results).",
+        inputSchema: z.object({
+            device_id: z.string().optional().describe("Device ID. Defaults to USB device.")
+        })
+    },
+    async ({ device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            const pending = await device.enumeratePendingSpawn();
+            return formatText({
+                status: "success",
+                pending: pending.map(p => ({ pid: p.pid, identifier: p.identifier })),
+                observed: GatingManager.events(device, 'spawn')
+            });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 22. Enable Child Gating
+registry.registerTool(
+    "enable_child_gating",
+    {
+        description: "Suspend children the session's process forks, execs or spawns. Optionally auto-attach and inject a script into each child before resuming it.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID of the parent process."),
+            auto_attach_code: z.string().optional().describe("If set, attach to each child, load this code as a kept-alive script, then resume it."),
+            resume: z.boolean().optional().default(true).describe("Resume auto-attached children once the script is loaded.")
+        })
+    },
+    async ({ session_id, auto_attach_code, resume }) => {
+        try {
+            const policy = auto_attach_code !== undefined
+                ? { code: auto_attach_code, resume, resumeUnmatched: false, owner: clientContext.getStore()?.id }
+                : undefined;
+            await GatingManager.enableChildGating(session_id, policy);
+            return formatText({ status: "success", session_id, child_gating: true, auto_attach: !!policy });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 23. Disable Child Gating
+registry.registerTool(
+    "disable_child_gating",
+    {
+        description: "Stop suspending children of the session's process.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID of the parent process.")
+        })
+    },
+    async ({ session_id }) => {
+        try {
+            await GatingManager.disableChildGating(session_id);
+            return formatText({ status: "success", session_id, child_gating: false });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 24. List Pending Children
+registry.registerTool(
+    "list_pending_children",
+    {
+        description: "List child processes currently suspended by child gating, plus the children observed so far (with any auto-attach results).",
+        inputSchema: z.object({
+            device_id: z.string().optional().describe("Device ID. Defaults to USB device.")
+        })
+    },
+    async ({ device_id }) => {
+        try {
+            const device = await resolveDevice(device_id);
+            const pending = await device.enumeratePendingChildren();
+            return formatText({
+                status: "success",
+                pending: pending.map(c => ({
+                    pid: c.pid,
+                    parent_pid: c.parentPid,
+                    origin: c.origin,
+                    identifier: c.identifier,
+                    path: c.path,
+                    argv: c.argv
+                })),
+                observed: GatingManager.events(device, 'child')
+            });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 25. Add Remote Device
+registry.registerTool(
+    "add_remote_device",
+    {
+        description: "Connect to a frida-server or Gadget listening on host:port. The returned device ID can be used as device_id in every other tool.",
+        inputSchema: z.object({
+            address: z.string().describe("Address of the frida-server/Gadget, e.g. '192.168.1.20:27042'."),
+            token: z.string().optional().describe("Authentication token, if the server requires one."),
+            certificate: z.string().optional().describe("PEM-encoded TLS certificate (or path to one) to connect with TLS."),
+            origin: z.string().optional().describe("Origin header to send (for servers behind an origin check)."),
+            keepalive_interval: z.number().int().optional().describe("Keepalive interval in seconds. -1 disables keepalives.")
+        })
+    },
+    async ({ address, token, certificate, origin, keepalive_interval }) => {
+        try {
+            const options: frida.RemoteDeviceOptions = {};
+            if (token !== undefined) options.token = token;
+            // Anything that isn't PEM is a path to a certificate file on the server host
+            if (certificate !== undefined) options.certificate = certificate.includes('-----BEGIN') ? certificate : PolicyEngine.assertPath(certificate);
+            if (origin !== undefined) options.origin = origin;
+            if (keepalive_interval !== undefined) options.keepaliveInterval = keepalive_interval;
+
+            const device = await frida.getDeviceManager().addRemoteDevice(address, options);
+            return formatText({ status: "success", id: device.id, name: device.name, type: device.type });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 26. Remove Remote Device
+registry.registerTool(
+    "remove_remote_device",
+    {
+        description: "Disconnect a remote device previously added with add_remote_device.",
+        inputSchema: z.object({
+            address: z.string().describe("Address passed to add_remote_device.")
+        })
+    },
+    async ({ address }) => {
+        try {
+            await frida.getDeviceManager().removeRemoteDevice(address);
+            return formatText({ status: "success", address, removed: true });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 27. Enumerate Modules
+registry.registerTool(
+    "enumerate_modules",
+    {
+        description: "List modules loaded in the session's process, with name filter and pagination.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            filter: z.string().optional().describe("Name filter: a glob (e.g. 'SSL_*') or a case-insensitive substring."),
+            offset: z.number().int().min(0).optional().default(0).describe("Number of results to skip."),
+            limit: z.number().int().positive().optional().default(100).describe("Maximum number of results to return.")
+        })
+    },
+    async ({ session_id, filter, offset, limit }) => {
+        try {
+            const page = await SessionManager.callAgent(session_id, 'explorer', EXPLORER_AGENT_SOURCE, 'modules', [filter ?? null, offset, limit]);
+            return formatText({ status: "success", ...page });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 28. Enumerate Exports
+registry.registerTool(
+    "enumerate_exports",
+    {
+        description: "List a module's exported functions and variables, with name filter and pagination.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            module: z.string().describe("Module name, e.g. 'libssl.so'."),
+            type: z.enum(["function", "variable"]).optional().describe("Only return exports of this type."),
+            filter: z.string().optional().describe("Name filter: a glob (e.g. 'SSL_*') or a case-insensitive substring."),
+            offset: z.number().int().min(0).optional().default(0).describe("Number of results to skip."),
+            limit: z.number().int().positive().optional().default(100).describe("Maximum number of results to return.")
+        })
+    },
+    async ({ session_id, module, type, filter, offset, limit }) => {
+        try {
+            const page = await SessionManager.callAgent(session_id, 'explorer', EXPLORER_AGENT_SOURCE, 'exports', [module, filter ?? null, type ?? null, offset, limit]);
+            return formatText({ status: "success", ...page });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 29. Enumerate Imports
+registry.registerTool(
+    "enumerate_imports",
+    {
+        description: "List a module's imports and where they resolve to, with name filter and pagination.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            module: z.string().describe("Module name, e.g. 'libssl.so'."),
+            type: z.enum(["function", "variable"]).optional().describe("Only return imports of this type."),
+            filter: z.string().optional().describe("Name filter: a glob (e.g. 'SSL_*') or a case-insensitive substring."),
+            offset: z.number().int().min(0).optional().default(0).describe("Number of results to skip."),
+            limit: z.number().int().positive().optional().default(100).describe("Maximum number of results to return.")
+        })
+    },
+    async ({ session_id, module, type, filter, offset, limit }) => {
+        try {
+            const page = await SessionManager.callAgent(session_id, 'explorer', EXPLORER_AGENT_SOURCE, 'imports', [module, filter ?? null, type ?? null, offset, limit]);
+            return formatText({ status: "success", ...page });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 30. Enumerate Symbols
+registry.registerTool(
+    "enumerate_symbols",
+    {
+        description: "List a module's symbol table (including non-exported symbols where available), with name filter and pagination.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            module: z.string().describe("Module name, e.g. 'libssl.so'."),
+            type: z.string().optional().describe("Only return symbols of this type (e.g. 'function', 'object')."),
+            filter: z.string().optional().describe("Name filter: a glob (e.g. 'SSL_*') or a case-insensitive substring."),
+            offset: z.number().int().min(0).optional().default(0).describe("Number of results to skip."),
+            limit: z.number().int().positive().optional().default(100).describe("Maximum number of results to return.")
+        })
+    },
+    async ({ session_id, module, type, filter, offset, limit }) => {
+        try {
+            const page = await SessionManager.callAgent(session_id, 'explorer', EXPLORER_AGENT_SOURCE, 'symbols', [module, filter ?? null, type ?? null, offset, limit]);
+            return formatText({ status: "success", ...page });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 31. Resolve Symbol
+registry.registerTool(
+    "resolve_symbol",
+    {
+        description: "Resolve 'module!symbol' (or a bare global symbol) to an address, or an address ('0x...') to its nearest symbol, using DebugSymbol.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            query: z.string().describe("'libc.so!open', 'open' or '0x7f12345678'.")
+        })
+    },
+    async ({ session_id, query }) => {
+        try {
+            const symbol = await SessionManager.callAgent(session_id, 'explorer', EXPLORER_AGENT_SOURCE, 'resolve', [query]);
+            return formatText({ status: "success", ...symbol });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 32. Read Memory
+registry.registerTool(
+    "read_memory",
+    {
+        description: "Read process memory as a hexdump, base64, or typed values (integers, floats, pointers, UTF-8/UTF-16 strings).",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            address: z.string().describe("Address to read from, e.g. '0x7f12345678'."),
+            size: z.number().int().min(0).max(MAX_MEMORY_READ).optional().default(256).describe("Bytes to read (hexdump/base64), or maximum bytes for strings (0 reads up to the terminator)."),
+            format: z.enum(["hexdump", "base64", "typed"]).optional().default("hexdump").describe("Output format."),
+            type: z.enum(["u8", "s8", "u16", "s16", "u32", "s32", "u64", "s64", "float", "double", "pointer", "utf8", "utf16"]).optional().default("u8").describe("Value type when format is 'typed'."),
+            count: z.number().int().positive().max(4096).optional().default(1).describe("Number of consecutive values to read when format is 'typed' (ignored for strings).")
+        })
+    },
+    async ({ session_id, address, size, format, type, count }) => {
+        try {
+            const value = await SessionManager.callAgent(session_id, 'memory', MEMORY_AGENT_SOURCE, 'read', [address, size, format, type, count]);
+            const data = format === "base64" ? (value ? Buffer.from(value).toString("base64") : null) : value;
+            return formatText({ status: "success", address, format, type: format === "typed" ? type : undefined, data });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 33. Write Memory
+registry.registerTool(
+    "write_memory",
+    {
+        description: "Write raw bytes (hex or base64) or a typed value to process memory. Read-only pages are made writable for the write and restored afterwards; executable pages are patched with Memory.patchCode.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            address: z.string().describe("Address to write to."),
+            hex: z.string().optional().describe("Bytes to write as hex, e.g. '90 90 c3'."),
+            base64: z.string().optional().describe("Bytes to write as base64 (instead of hex)."),
+            type: z.enum(["u8", "s8", "u16", "s16", "u32", "s32", "u64", "s64", "float", "double", "pointer", "utf8", "utf16"]).optional().describe("Type of 'value' when writing a typed value."),
+            value: z.union([z.string(), z.number()]).optional().describe("Typed value to write (64-bit integers and pointers as strings)."),
+            make_writable: z.boolean().optional().default(true).describe("Temporarily add write permission to read-only pages (or patch code pages via Memory.patchCode).")
+        })
+    },
+    async ({ session_id, address, hex, base64, type, value, make_writable }) => {
+        try {
+            if (hex !== undefined && base64 !== undefined) {
+                throw new ToolError('INVALID_ARGUMENT', "Provide exactly one of hex or base64");
+            }
+            const bytes = base64 !== undefined ? Buffer.from(base64, "base64").toString("hex") : hex;
+            if (bytes === undefined && (type === undefined || value === undefined)) {
+                throw new ToolError('INVALID_ARGUMENT', "Provide hex, base64, or type and value");
+            }
+            const result = await SessionManager.callAgent(session_id, 'memory', MEMORY_AGENT_SOURCE, 'write',
+                [address, bytes ?? null, type ?? null, value ?? null, make_writable]);
+            return formatText({ status: "success", ...result });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
-}
+);
 
-// --- Server Setup ---
-const mcpServer = new McpServer(
+// 34. Scan Memory
+registry.registerTool(
+    "scan_memory",
     {
-        name: "frida-mcp-node",
-        version: "1.0.0"
+        description: "Scan memory for a byte pattern using Memory.scan syntax ('48 8b ?? 05', '13 37 ?f', or 'de ad : ff ff' masks).",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            pattern: z.string().describe("Byte pattern in Memory.scan syntax."),
+            protection: z.string().optional().default("r--").describe("Minimum protection of ranges to scan when no address is given, e.g. 'r--' or 'r-x'."),
+            address: z.string().optional().describe("Scan only this region (requires size)."),
+            size: z.number().int().positive().optional().describe("Size of the region starting at address."),
+            max_matches: z.number().int().positive().max(10000).optional().default(100).describe("Stop after this many matches.")
+        })
     },
-    {
-        capabilities: {
-            tools: {} // Capability declaration
+    async ({ session_id, pattern, protection, address, size, max_matches }, { signal }) => {
+        try {
+            if (address !== undefined && size === undefined) throw new ToolError('INVALID_ARGUMENT', "size is required when address is given");
+            const result = await SessionManager.callAgent(session_id, 'memory', MEMORY_AGENT_SOURCE, 'scan',
+                [pattern, protection, address ?? null, size ?? 0, max_matches], { signal });
+            return formatText({ status: "success", pattern, ...result });
+        } catch (e: any) {
+            return errorResult(e);
         }
     }
 );
 
-// --- Tool Registration ---
+// 35. Enumerate Ranges
+registry.registerTool(
+    "enumerate_ranges",
+    {
+        description: "List mapped memory ranges matching a minimum protection, optionally limited to one module, with pagination.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            protection: z.string().optional().default("r--").describe("Minimum protection, e.g. 'r--', 'rw-' or 'r-x'."),
+            coalesce: z.boolean().optional().default(false).describe("Merge adjacent ranges with the same protection."),
+            module: z.string().optional().describe("Only list ranges belonging to this module."),
+            offset: z.number().int().min(0).optional().default(0).describe("Number of results to skip."),
+            limit: z.number().int().positive().optional().default(100).describe("Maximum number of results to return.")
+        })
+    },
+    async ({ session_id, protection, coalesce, module, offset, limit }) => {
+        try {
+            const page = await SessionManager.callAgent(session_id, 'memory', MEMORY_AGENT_SOURCE, 'ranges',
+                [protection, coalesce, module ?? null, offset, limit]);
+            return formatText({ status: "success", ...page });
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
 
-// Helper to format text content
-const formatText = (data: any) => ({
-    content: [{ type: "text" as const, text: typeof data === 'string' ? data : JSON.stringify(data, null, 2) }]
+// 36. Hook Function
+const hookValueSchema = z.object({
+    type: z.enum(["int", "uint", "long", "pointer", "bool", "utf8", "utf16", "bytes"]).describe("How to decode the value. Strings and bytes dereference it as a pointer."),
+    length: z.number().int().positive().optional().describe("Maximum characters for strings, or bytes to dump for 'bytes' (default 64).")
 });
 
-// 1. Enumerate Devices
-mcpServer.registerTool(
-    "enumerate_devices",
+registry.registerTool(
+    "hook_function",
     {
-        description: "List all connected devices (USB, Local, Remote).",
-        inputSchema: z.object({})
+        description: "Hook native functions with Interceptor.attach and queue one structured 'hook_event' message per call (thread ID, decoded args, return value, timestamp, optional symbolicated backtrace). Read events with get_session_messages or wait_for_message.",
+        inputSchema: z.object({
+            session_id: z.string().describe("Session ID."),
+            target: z.string().describe("'libc.so!open', a bare export name, a glob like 'libssl.so!SSL_*' (or 'imports:libapp.so!*'), or an address ('0x...')."),
+            hook_id: z.string().optional().describe("Name for the hook. Generated and returned if omitted."),
+            args: z.array(hookValueSchema.extend({
+                index: z.number().int().min(0).describe("Argument index."),
+                name: z.string().optional().describe("Name to report the argument under (default 'argN')."),
+                read_on_leave: z.boolean().optional().describe("Decode when the function returns (for out-parameters).")
+            })).optional().default([]).describe("Arguments to capture."),
+            retval: hookValueSchema.optional().describe("How to decode the return value. Omit to skip it."),
+            backtrace: z.boolean().optional().default(false).describe("Capture a symbolicated backtrace per call."),
+            max_targets: z.number().int().positive().optional().default(50).describe("Maximum functions a glob target may hook.")
+        })
     },
-    async () => {
-        const devices = await frida.enumerateDevices();
-        return formatText(devices.map(d => ({
-            id: d.id,
-            name: d.name,
-            type: d.type
-        })));
+    async ({ session_id, target, hook_id, args, retval, backtrace, max_targets }) => {
+        try {
+            const id = hook_id || `hook_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+            const targets = await SessionManager.install(session_id, {
+                kind: 'hook', id, agent: 'hooks', source: HOOKS_AGENT_SOURCE, method: 'add',
+                args: [id, { target, args, retval, backtrace, maxTargets: max_targets }]
+            });
+            return formatText({ status: "success", hook_id: id, targets });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
 );
 
-// 2. Enumerate Processes
-mcpServer.registerTool(
-    "enumerate_processes",
+// 37. List Hooks
+registry.registerTool(
+    "list_hooks",
     {
-        description: "List processes running on a specific device.",
+        description: "List hooks installed with hook_function and the functions each one resolved to.",
         inputSchema: z.object({
-            device_id: z.string().optional().describe("Device ID to list processes from. Defaults to USB device.")
+            session_id: z.string().describe("Session ID.")
         })
     },
-    async ({ device_id }) => {
-        const device = device_id ? await frida.getDevice(device_id) : await frida.getUsbDevice();
-        const processes = await device.enumerateProcesses();
-        return formatText(processes.map(p => ({
-            pid: p.pid,
-            name: p.name
-        })));
+    async ({ session_id }) => {
+        try {
+            const hooks = await SessionManager.callAgent(session_id, 'hooks', HOOKS_AGENT_SOURCE, 'list', []);
+            return formatText({ status: "success", hooks });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
 );
 
-// 3. Get Process By Name
-mcpServer.registerTool(
-    "get_process_by_name",
+// 38. Remove Hook
+registry.registerTool(
+    "remove_hook",
     {
-        description: "Find a process by its name (case-insensitive substring match).",
+        description: "Detach a hook installed with hook_function.",
         inputSchema: z.object({
-            name: z.string().describe("Process name or substring to search for."),
-            device_id: z.string().optional().describe("Device ID to search on. Defaults to USB.")
+            session_id: z.string().describe("Session ID."),
+            hook_id: z.string().describe("Hook ID from hook_function or list_hooks.")
         })
     },
-    async ({ name, device_id }) => {
-        const device = device_id ? await frida.getDevice(device_id) : await frida.getUsbDevice();
-        const processes = await device.enumerateProcesses();
-        const match = processes.find(p => p.name.toLowerCase().includes(name.toLowerCase()));
-
-        if (match) {
-            return formatText({ found: true, pid: match.pid, name: match.name });
-        } else {
-            return formatText({ found: false, error: "Not found" });
+    async ({ session_id, hook_id }) => {
+        try {
+            await SessionManager.callAgent(session_id, 'hooks', HOOKS_AGENT_SOURCE, 'remove', [hook_id]);
+            SessionManager.forgetInstall(session_id, 'hook', hook_id);
+            return formatText({ status: "success", hook_id, removed: true });
+        } catch (e: any) {
+            return errorResult(e);
         }
     }
 );
 
-// 4. Spawn Process
-mcpServer.registerTool(
-    "spawn_process",
+// 39. Start Trace
+registry.registerTool(
+    "start_trace",
     {
-        description: "Spawn a new process/application.",
+        description: "frida-trace style tracer: instrument every function matching the include patterns (minus excludes) with a lightweight enter/leave logger. In 'calls' mode, per-thread indented call trees are queued as 'trace_events' messages; in 'summary' mode only hit counts are kept (returned by stop_trace).",
         inputSchema: z.object({
-            program: z.string().describe("Package name or path to executable."),
-            argv: z.array(z.string()).optional().describe("Command line arguments."),
-            env: z.record(z.string()).optional().describe("Environment variables."),
-            device_id: z.string().optional().describe("Device ID to spawn on.")
+            session_id: z.string().describe("Session ID."),
+            include: z.array(z.string()).min(1).describe("Patterns to trace: 'libc.so!open*', 'open*' (any module), 'imports:libapp.so!*', 'objc:-[NSURL *]', 'swift:...', or 'java:com.example.*!login*' (Java methods, Android only)."),
+            exclude: z.array(z.string()).optional().default([]).describe("Globs matched against resolved names to skip, e.g. '*!*printf*'."),
+            mode: z.enum(["calls", "summary"]).optional().default("calls").describe("'calls' queues call trees; 'summary' only counts hits."),
+            trace_id: z.string().optional().describe("Name for the trace. Generated and returned if omitted."),
+            max_targets: z.number().int().positive().optional().default(500).describe("Refuse to start if more functions than this match.")
         })
     },
-    async ({ program, argv, env, device_id }) => {
-        const device = device_id ? await frida.getDevice(device_id) : await frida.getUsbDevice();
-        // Construct SpawnOptions
-        const options: SpawnOptions = {};
-        if (argv) options.argv = [program, ...argv]; // Frida expects argv[0] to be the program usually
-        if (env) options.env = env;
-
-        const pid = await device.spawn(program, options);
-        return formatText({ pid });
+    async ({ session_id, include, exclude, mode, trace_id, max_targets }) => {
+        try {
+            const id = trace_id || `trace_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+            const result = await SessionManager.install(session_id, {
+                kind: 'trace', id, agent: 'tracer', source: TRACER_AGENT_SOURCE, method: 'start',
+                args: [id, include, exclude, mode, max_targets]
+            });
+            return formatText({ status: "success", trace_id: id, mode, ...result });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
 );
 
-// 5. Resume Process
-mcpServer.registerTool(
-    "resume_process",
+// 40. Stop Trace
+registry.registerTool(
+    "stop_trace",
     {
-        description: "Resume a paused process (e.g., after spawning).",
+        description: "Stop a trace started with start_trace, flush its remaining events and return per-function hit counts.",
         inputSchema: z.object({
-            pid: z.number().describe("Process ID to resume."),
-            device_id: z.string().optional().describe("Device ID.")
+            session_id: z.string().describe("Session ID."),
+            trace_id: z.string().describe("Trace ID from start_trace."),
+            top: z.number().int().positive().optional().default(50).describe("Only return the most frequently hit functions.")
         })
     },
-    async ({ pid, device_id }) => {
-        const device = device_id ? await frida.getDevice(device_id) : await frida.getUsbDevice();
-        await device.resume(pid);
-        return formatText({ success: true, pid });
+    async ({ session_id, trace_id, top }) => {
+        try {
+            const result = await SessionManager.callAgent(session_id, 'tracer', TRACER_AGENT_SOURCE, 'stop', [trace_id]);
+            SessionManager.forgetInstall(session_id, 'trace', trace_id);
+            return formatText({ status: "success", trace_id, ...result, hits: result.hits.slice(0, top), distinct_functions: result.hits.length });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
 );
 
-// 6. Kill Process
-mcpServer.registerTool(
-    "kill_process",
+// 41. Start Coverage
+registry.registerTool(
+    "start_coverage",
     {
-        description: "Terminate a process.",
+        description: "Follow threads with Stalker to collect basic-block coverage (exported as drcov by stop_coverage), or a call summary of the hottest call targets.",
         inputSchema: z.object({
-            pid: z.number().describe("Process ID to kill."),
-            device_id: z.string().optional().describe("Device ID.")
+            session_id: z.string().describe("Session ID."),
+            thread_ids: z.array(z.number().int()).optional().describe("Threads to follow. Defaults to every thread in the process."),
+            mode: z.enum(["coverage", "call_summary"]).optional().default("coverage").describe("'coverage' records basic blocks; 'call_summary' counts call targets."),
+            modules: z.array(z.string()).optional().describe("Only record blocks in these modules (coverage mode)."),
+            coverage_id: z.string().regex(COVERAGE_ID_PATTERN, 'letters, digits, ., - and _').optional().describe("Name for the coverage run (letters, digits, '.', '-' and '_'; it names the default drcov file). Generated and returned if omitted.")
         })
     },
-    async ({ pid, device_id }) => {
-        const device = device_id ? await frida.getDevice(device_id) : await frida.getUsbDevice();
-        await device.kill(pid);
-        return formatText({ success: true, pid });
+    async ({ session_id, thread_ids, mode, modules, coverage_id }) => {
+        try {
+            const id = coverage_id || `coverage_${Date.now()}_${Math.random().toString(36).substring(2, 8)}`;
+            const result = await SessionManager.install(session_id, {
+                kind: 'coverage', id, agent: 'coverage', source: COVERAGE_AGENT_SOURCE, method: 'start',
+                args: [id, thread_ids ?? null, mode, modules ?? null]
+            });
+            return formatText({ status: "success", coverage_id: id, mode, ...result });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
 );
 
-// 7. Create Session
-mcpServer.registerTool(
-    "create_interactive_session",
+// 42. Stop Coverage
+registry.registerTool(
+    "stop_coverage",
     {
-        description: "Attach to a process and create a persistent Frida session.",
+        description: "Stop a Stalker run started with start_coverage. In coverage mode, writes a drcov file (loadable in Lighthouse or bncov) on the server host; in call_summary mode, returns the hottest call targets.",
         inputSchema: z.object({
-            process_id: z.number().describe("Target Process ID."),
-            device_id: z.string().optional().describe("Device ID.")
+            session_id: z.string().describe("Session ID."),
+            coverage_id: z.string().regex(COVERAGE_ID_PATTERN, 'letters, digits, ., - and _').describe("Coverage ID from start_coverage."),
+            output_path: z.string().optional().describe("Where to write the drcov file. Defaults to <coverage_id>.drcov in the first workspace root, or in the system temp directory without one."),
+            top: z.number().int().positive().optional().default(50).describe("Number of call targets to return in call_summary mode.")
         })
     },
-    async ({ process_id, device_id }) => {
+    async ({ session_id, coverage_id, output_path, top }) => {
         try {
-            const sessionId = await SessionManager.create(process_id, device_id);
+            const result = await SessionManager.callAgent(session_id, 'coverage', COVERAGE_AGENT_SOURCE, 'stop', [coverage_id]);
+            SessionManager.forgetInstall(session_id, 'coverage', coverage_id);
+            if (result.calls) {
+                return formatText({ status: "success", coverage_id, duration_ms: result.duration_ms, distinct_targets: result.calls.length, calls: result.calls.slice(0, top) });
+            }
+
+            const blocks: Buffer = result.block_count > 0
+                ? await SessionManager.callAgent(session_id, 'coverage', COVERAGE_AGENT_SOURCE, 'blocks', [coverage_id])
+                : Buffer.alloc(0);
+            const file = PolicyEngine.assertPath(output_path ?? path.join(WORKSPACE_ROOTS[0] ?? os.tmpdir(), `${coverage_id}.drcov`));
+            await writeFile(file, buildDrcov(result.modules, blocks));
+
             return formatText({
                 status: "success",
-                session_id: sessionId,
-                message: "Session created. Use execute_in_session."
+                coverage_id,
+                duration_ms: result.duration_ms,
+                block_count: result.block_count,
+                modules: result.modules.map((m: any) => m.path),
+                drcov_path: file
             });
         } catch (e: any) {
-            return {
-                content: [{ type: "text" as const, text: JSON.stringify({ status: "error", error: e.toString() }) }],
-                isError: true
-            };
+            return errorResult(e);
         }
     }
 );
 
-// 8. Execute in Session
-mcpServer.registerTool(
-    "execute_in_session",
+// 43. List Sessions
+registry.registerTool(
+    "list_sessions",
     {
-        description: "Execute JavaScript in an active session (Enforces V8 runtime).",
+        description: "List active sessions (device, PID, scripts, queue sizes) and recently detached sessions with their detach reasons.",
+        inputSchema: z.object({})
+    },
+    async () => {
+        return formatText({ status: "success", ...SessionManager.list() });
+    }
+);
+
+// 44. Detach Session
+registry.registerTool(
+    "detach_session",
+    {
+        description: "Unload every script in a session and detach from the process.",
         inputSchema: z.object({
-            session_id: z.string().describe("Session ID from create_interactive_session."),
-            javascript_code: z.string().describe("Frida JavaScript code."),
-            keep_alive: z.boolean().optional().default(false).describe("Keep script loaded for hooks?")
+            session_id: z.string().describe("Session ID.")
         })
     },
-    async ({ session_id, javascript_code, keep_alive }) => {
+    async ({ session_id }) => {
         try {
-            const result = await SessionManager.execute(session_id, javascript_code, keep_alive);
-            return formatText(result);
+            // Detaching also stops watching the session's script files
+            await SessionManager.detach(session_id);
+            return formatText({ status: "success", session_id, detached: true });
         } catch (e: any) {
-            return {
-                content: [{ type: "text" as const, text: JSON.stringify({ status: "error", error: e.toString() }) }],
-                isError: true
-            };
+            return errorResult(e);
         }
     }
 );
 
-// 9. Get Messages
-mcpServer.registerTool(
-    "get_session_messages",
+// 45. Launch and Instrument
+registry.registerTool(
+    "launch_and_instrument",
     {
-        description: "Retrieve logs/messages from a persistent script.",
+        description: "Spawn a process suspended, attach, load one or more kept-alive scripts (optionally waiting for each to send { type: 'ready' }), then resume it. Use this to hook code that runs at startup.",
         inputSchema: z.object({
-            session_id: z.string().describe("Session ID.")
+            ...spawnOptionsShape,
+            device_id: z.string().optional().describe("Device ID to spawn on."),
+            scripts: z.array(z.object({
+                javascript_code: z.string().describe("Frida JavaScript code."),
+                script_id: z.string().optional().describe("Name for the script. Generated if omitted."),
+                wait_for_ready: z.boolean().optional().default(false).describe("Wait for the script to send({ type: 'ready' }) before continuing (for async setup such as Java.perform).")
+            })).min(1).describe("Scripts to load, in order, before the process is resumed."),
+            ready_timeout_ms: z.number().int().positive().optional().default(DEFAULT_TIMEOUT_MS).describe("How long to wait for each script to load and signal readiness."),
+            kill_on_failure: z.boolean().optional().default(true).describe("Kill the spawned process if attaching or loading a script fails.")
         })
     },
-    async ({ session_id }) => {
-        const session = SessionManager.get(session_id);
-        if (!session) return {
-            content: [{ type: "text" as const, text: JSON.stringify({ status: "error", error: "Session not found" }) }],
-            isError: true
-        };
+    async ({ device_id, scripts, ready_timeout_ms, kill_on_failure, ...spawnArgs }, { signal }) => {
+        let device: Device | undefined;
+        let pid: number | undefined;
+        let sessionId: string | undefined;
+        try {
+            device = await resolveDevice(device_id);
+            if (spawnArgs.stdio === "pipe") SessionManager.captureOutput(device);
+
+            pid = await device.spawn(spawnArgs.program, buildSpawnOptions(spawnArgs));
+            sessionId = await SessionManager.create(pid, device.id);
+
+            const limits = { timeoutMs: ready_timeout_ms, signal };
+            const loaded = [];
+            for (const spec of scripts) {
+                const cursor = SessionManager.get(sessionId)!.messageQueue.lastCursor;
+                const result = await SessionManager.execute(sessionId, spec.javascript_code, true, spec.script_id, limits);
+                if (result.status === 'error') {
+                    throw new ToolError('SCRIPT_ERROR', `Script ${spec.script_id ?? loaded.length} failed to load: ${JSON.stringify(result.error)}`);
+                }
+                if (spec.wait_for_ready) {
+                    await SessionManager.waitForMessage(sessionId, {
+                        sinceCursor: cursor,
+                        scriptId: result.script_id,
+                        payloadPath: '$.payload.type',
+                        payloadEquals: 'ready'
+                    }, true, limits);
+                }
+                loaded.push({ script_id: result.script_id, result: result.result, logs: result.logs });
+            }
 
-        const messages = [...session.messageQueue];
-        session.messageQueue = []; // Clear queue
-        return formatText({ status: "success", messages });
+            await device.resume(pid);
+            return formatText({ status: "success", pid, session_id: sessionId, scripts: loaded });
+        } catch (e: any) {
+            if (kill_on_failure && device && pid !== undefined) {
+                if (sessionId) await SessionManager.detach(sessionId).catch(() => { });
+                await device.kill(pid).catch(() => { });
+            }
+            return errorResult(e, { pid, session_id: kill_on_failure ? undefined : sessionId });
+        }
     }
 );
 
-// 10. List Applications
-mcpServer.registerTool(
-    "list_applications",
+// 46. Compile Agent
+registry.registerTool(
+    "compile_agent",
     {
-        description: "List installed applications on the device.",
+        description: "Bundle an agent with frida.Compiler from inline source or a project directory on the server host (TypeScript, ES modules, npm imports such as frida-java-bridge / frida-objc-bridge). Bundles are cached by content hash. Optionally load the result into a session as a kept-alive script.",
         inputSchema: z.object({
-            device_id: z.string().optional().describe("Device ID.")
+            source: z.string().optional().describe("Inline agent source."),
+            language: z.enum(["javascript", "typescript"]).optional().default("javascript").describe("Language of the inline source."),
+            project_root: z.string().optional().describe("Agent project directory on the server host (with its own node_modules). Used when source is omitted."),
+            entrypoint: z.string().optional().default("index.ts").describe("Entrypoint relative to project_root."),
+            type_check: z.boolean().optional().default(false).describe("Run the TypeScript type checker (needs @types/frida-gum in the project)."),
+            compress: z.boolean().optional().default(false).describe("Minify the bundle with terser."),
+            source_maps: z.boolean().optional().default(false).describe("Include source maps so stack traces point at the original files."),
+            session_id: z.string().optional().describe("Load the bundle into this session."),
+            script_id: z.string().optional().describe("Name for the loaded script. Generated if omitted."),
+            return_bundle: z.boolean().optional().default(false).describe("Include the compiled bundle in the response."),
+            timeout_ms: z.number().int().positive().optional().default(DEFAULT_TIMEOUT_MS).describe("Give up loading the script after this many milliseconds.")
         })
     },
-    async ({ device_id }) => {
-        const device = device_id ? await frida.getDevice(device_id) : await frida.getUsbDevice();
-        // enumerateApplications allows filtering but we'll list all/identifiers
-        const apps = await device.enumerateApplications();
-        return formatText(apps.map(a => ({
-            identifier: a.identifier,
-            name: a.name,
-            pid: a.pid,
-            parameters: a.parameters
-        })));
+    async ({ source, language, project_root, entrypoint, type_check, compress, source_maps, session_id, script_id, return_bundle, timeout_ms }, { signal }) => {
+        try {
+            // Project files are read from the server host, so they must be inside the workspace
+            const projectRoot = source === undefined && project_root !== undefined ? PolicyEngine.assertPath(project_root) : project_root;
+            if (projectRoot !== undefined && source === undefined) PolicyEngine.assertPath(path.resolve(projectRoot, entrypoint));
+            const compiled = await AgentCompiler.compile({
+                source,
+                language,
+                projectRoot,
+                entrypoint,
+                typeCheck: type_check,
+                compress,
+                sourceMaps: source_maps
+            });
+            const loaded = session_id
+                ? await SessionManager.loadBundle(session_id, compiled.bundle, true, script_id, { timeoutMs: timeout_ms, signal })
+                : undefined;
+            const build = {
+                hash: compiled.hash,
+                cached: compiled.cached,
+                compile_ms: compiled.compile_ms,
+                bundle_size: compiled.bundle.length,
+                diagnostics: compiled.diagnostics
+            };
+            // The bundle built but threw while loading: same envelope as any other failure, plus the build details
+            if (loaded?.status === 'error') {
+                return errorResult(new ToolError('SCRIPT_ERROR', `Script failed to load: ${loaded.error.message}`), { ...build, stack: loaded.error.stack });
+            }
+            return formatText({
+                status: "success",
+                ...build,
+                script_id: loaded?.script_id,
+                bundle: return_bundle ? compiled.bundle : undefined
+            });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
 );
 
-// 11. Get Frontmost Application
-mcpServer.registerTool(
-    "get_frontmost_application",
+// 47. Load Script File
+registry.registerTool(
+    "load_script_file",
     {
-        description: "Get the application currently visible on screen.",
+        description: "Load a kept-alive script from a file on the server host. With watch, the script is reloaded into the same session whenever the file changes, and a script_reloaded message (with any compile or runtime error) is queued.",
         inputSchema: z.object({
-            device_id: z.string().optional().describe("Device ID.")
+            session_id: z.string().describe("Session ID."),
+            path: z.string().describe("Path to the agent file on the server host."),
+            script_id: z.string().optional().describe("Name for the script. Defaults to the file name without extension."),
+            compile: z.boolean().optional().describe("Bundle with frida.Compiler (imports, TypeScript). Defaults to true for .ts files."),
+            project_root: z.string().optional().describe("Project directory for compiled scripts. Defaults to the nearest directory above the file with a package.json or node_modules. Changes anywhere in it (outside node_modules and dot-directories) trigger a reload."),
+            watch: z.boolean().optional().default(false).describe("Reload the script when the file changes. Stops on unload_script or detach_session."),
+            timeout_ms: z.number().int().positive().optional().default(DEFAULT_TIMEOUT_MS).describe("Give up loading the script after this many milliseconds.")
         })
     },
-    async ({ device_id }) => {
-        const device = device_id ? await frida.getDevice(device_id) : await frida.getUsbDevice();
-        const app = await device.getFrontmostApplication();
-        if (!app) return formatText(null);
-        return formatText({
-            identifier: app.identifier,
-            name: app.name,
-            pid: app.pid,
-            parameters: app.parameters
-        });
+    async ({ session_id, path: file, script_id, compile, project_root, watch, timeout_ms }, { signal }) => {
+        try {
+            const resolved = PolicyEngine.assertPath(file);
+            const compiled = compile ?? path.extname(resolved) === '.ts';
+            const spec: ScriptFileSpec = {
+                path: resolved,
+                compile: compiled,
+                projectRoot: project_root ? PolicyEngine.assertPath(project_root)
+                    : compiled ? PolicyEngine.assertPath(AgentCompiler.projectRootOf(resolved)) : undefined
+            };
+            const id = script_id ?? path.basename(resolved, path.extname(resolved));
+
+            const result = await ScriptFileManager.load(session_id, spec, id, { timeoutMs: timeout_ms, signal });
+            if (watch && result.script_id) ScriptFileManager.watch(session_id, id, spec);
+            return formatText({ ...result, watching: watch && result.script_id !== undefined });
+        } catch (e: any) {
+            return errorResult(e);
+        }
     }
 );
 
-// 12. Call Script Function (RPC)
-mcpServer.registerTool(
-    "call_script_function",
+// 48. Register Script Library
+registry.registerTool(
+    "register_script_library",
     {
-        description: "Call an exported function from the Frida script (RPC).",
+        description: "Register reusable JavaScript (helper functions, constants) that execute_in_session can preload via its libraries argument. Libraries are private to the client that registers them, and are part of the cached V8 snapshot / QuickJS bytecode, so they are not re-parsed on every call.",
         inputSchema: z.object({
-            session_id: z.string().describe("Session ID."),
-            function_name: z.string().describe("Name of the exported function to call."),
-            args: z.array(z.any()).optional().default([]).describe("Arguments to pass to the function.")
+            name: z.string().describe("Library name."),
+            javascript_code: z.string().optional().describe("Library source. Top-level declarations become globals. Omit to remove the library.")
         })
     },
-    async ({ session_id, function_name, args }) => {
-        const session = SessionManager.get(session_id);
-        if (!session) return {
-            content: [{ type: "text" as const, text: JSON.stringify({ status: "error", error: "Session not found" }) }],
-            isError: true
-        };
-
-        // We assume the last created script is the "main" one or the user should specify (but simple is best)
-        // For simplicity, we use the most recent script in the session
-        const scriptKeys = Array.from(session.scripts.keys());
-        if (scriptKeys.length === 0) return formatText({ status: "error", error: "No active scripts in session" });
-        const script = session.scripts.get(scriptKeys[scriptKeys.length - 1]);
+    async ({ name, javascript_code }) => {
+        if (javascript_code === undefined) {
+            return formatText({ status: "success", name, removed: ScriptCache.libraries().delete(name) });
+        }
+        const libraries = ScriptCache.libraries();
+        const replaced = libraries.has(name);
+        libraries.set(name, { source: javascript_code, registeredAt: Date.now() });
+        return formatText({ status: "success", name, replaced, source_length: javascript_code.length });
+    }
+);
 
-        if (!script) return formatText({ status: "error", error: "Script instance missing" });
+// 49. List Script Libraries
+registry.registerTool(
+    "list_script_libraries",
+    {
+        description: "List the script libraries this client registered and the size of the precompiled script cache.",
+        inputSchema: z.object({})
+    },
+    async () => {
+        return formatText({
+            status: "success",
+            libraries: Array.from(ScriptCache.libraries().entries()).map(([name, library]) => ({
+                name,
+                source_length: library.source.length,
+                registered_at: new Date(library.registeredAt).toISOString()
+            })),
+            cache: ScriptCache.stats()
+        });
+    }
+);
 
+// 50. Replay Recording
+registry.registerTool(
+    "replay_recording",
+    {
+        description: "Re-run the spawn_process, resume_process, create_interactive_session, execute_in_session and call_script_function calls recorded in an audit log (--audit-log), in order, e.g. against another device. PIDs, session IDs and generated script IDs are remapped as the replay goes. Failed calls in the recording are skipped.",
+        inputSchema: z.object({
+            path: z.string().describe("Audit log file (JSONL) to replay."),
+            device_id: z.string().optional().describe("Device to replay against. Defaults to the device each call was recorded with."),
+            session_id: z.string().optional().describe("Only replay this recorded session and the spawn/resume of its process."),
+            pid_map: z.record(z.string(), z.number().int()).optional().describe("Recorded PID -> PID on the target device, for processes that were attached to rather than spawned in the recording."),
+            stop_on_error: z.boolean().optional().default(true).describe("Stop at the first call that fails.")
+        })
+    },
+    async ({ path: file, device_id, session_id, pid_map, stop_on_error }, extra) => {
         try {
-            // Access exports
-            const api = script.exports;
-            if (typeof api[function_name] !== 'function') {
-                return formatText({ status: "error", error: `Function '${function_name}' not found in exports` });
-            }
-            const result = await api[function_name](...args);
-            return formatText({ status: "success", result });
+            return formatText(await Replayer.replay(PolicyEngine.assertPath(file), { deviceId: device_id, sessionId: session_id, pidMap: pid_map, stopOnError: stop_on_error }, extra));
         } catch (e: any) {
-            return formatText({ status: "error", error: e.toString() });
+            return errorResult(e);
         }
     }
 );
 
-// 13. Post Message to Session
-mcpServer.registerTool(
-    "post_message_to_session",
+// 51. Run Recipe
+registry.registerTool(
+    "run_recipe",
     {
-        description: "Post a JSON message to the script (received by recv() in Frida).",
+        description: `Inject a recipe (versioned, parameterized agent) into a session as a kept-alive script named recipe_<name>. Available: ${Array.from(recipes.keys()).join(', ')}. See list_recipes for their parameters and platforms; a recipe for another platform is rejected with NOT_SUPPORTED.`,
         inputSchema: z.object({
             session_id: z.string().describe("Session ID."),
-            message: z.any().describe("JSON message content.")
+            recipe: z.string().describe("Recipe name."),
+            params: z.record(z.string(), z.any()).optional().default({}).describe("Recipe parameters; omitted ones take their defaults."),
+            script_id: z.string().optional().describe("Name for the script. Defaults to recipe_<name>."),
+            timeout_ms: z.number().int().positive().optional().default(DEFAULT_TIMEOUT_MS).describe("Give up and unload the script if it has not loaded after this many milliseconds.")
         })
     },
-    async ({ session_id, message }) => {
-        const session = SessionManager.get(session_id);
-        if (!session) return {
-            content: [{ type: "text" as const, text: JSON.stringify({ status: "error", error: "Session not found" }) }],
-            isError: true
-        };
+    async ({ session_id, recipe, params, script_id, timeout_ms }, { signal }) => {
+        try {
+            return formatText(await RecipeLibrary.run(session_id, recipe, params, script_id, { timeoutMs: timeout_ms, signal }));
+        } catch (e: any) {
+            return errorResult(e);
+        }
+    }
+);
+
+// 52. List Recipes
+registry.registerTool(
+    "list_recipes",
+    {
+        description: "List the available recipes with their versions, platforms and parameter schemas.",
+        inputSchema: z.object({})
+    },
+    async () => {
+        return formatText({
+            status: "success",
+            recipes_dir: RECIPES_DIR,
+            recipes: Array.from(recipes.values()).map(recipe => RecipeLibrary.describe(recipe))
+        });
+    }
+);
+
+// --- HTTP Transport ---
+// `--transport http` serves Streamable HTTP on /mcp and legacy SSE on /sse + /messages, one McpServer per client.
+const HTTP_PATH = '/mcp';
+const SSE_PATH = '/sse';
+const SSE_MESSAGES_PATH = '/messages';
+const MAX_REQUEST_BODY_BYTES = 4 * 1024 * 1024;
+const LOOPBACK_HOSTS = new Set(['127.0.0.1', '::1', 'localhost']);
+const TRANSPORT = cliOption('transport') ?? process.env.FRIDA_MCP_TRANSPORT ?? 'stdio';
+
+interface HttpClient {
+    transport: StreamableHTTPServerTransport | SSEServerTransport;
+    server: McpServer;
+}
+
+const httpClients = new Map<string, HttpClient>();
+
+function httpOptions() {
+    return {
+        host: cliOption('host') ?? process.env.FRIDA_MCP_HOST ?? '127.0.0.1',
+        port: Number(cliOption('port') ?? process.env.FRIDA_MCP_PORT ?? 3000),
+        token: cliOption('auth-token') ?? process.env.FRIDA_MCP_AUTH_TOKEN
+    };
+}
+
+function authorized(req: IncomingMessage, token: string | undefined): boolean {
+    if (!token) return true;
+    const expected = Buffer.from(`Bearer ${token}`);
+    const actual = Buffer.from(req.headers.authorization ?? '');
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_REQUEST_BODY_BYTES) throw new ToolError('INVALID_ARGUMENT', 'Request body too large');
+        chunks.push(chunk);
+    }
+    return chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString('utf8')) : undefined;
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}) {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers }).end(JSON.stringify(body));
+}
+
+// A client went away: forget it and detach the sessions only it could see
+function disconnectClient(clientId: string) {
+    const client = httpClients.get(clientId);
+    if (!client) return;
+    httpClients.delete(clientId);
+    console.error(`Client ${clientId} disconnected`);
+    ResourceNotifier.detach(client.server);
+    client.server.close().catch(() => { });
+    SessionManager.detachClient(clientId);
+    ScriptCache.forgetClient(clientId);
+}
+
+async function handleStreamableHttp(req: IncomingMessage, res: ServerResponse) {
+    const body = req.method === 'POST' ? await readJsonBody(req) : undefined;
+    const sessionHeader = req.headers['mcp-session-id'];
+    const existing = typeof sessionHeader === 'string' ? httpClients.get(sessionHeader) : undefined;
+
+    if (existing) {
+        if (!(existing.transport instanceof StreamableHTTPServerTransport)) {
+            return sendJson(res, 400, { jsonrpc: '2.0', error: { code: -32000, message: 'Session uses the SSE transport' }, id: null });
+        }
+        return existing.transport.handleRequest(req, res, body);
+    }
+    if (sessionHeader !== undefined || req.method !== 'POST' || !isInitializeRequest(body)) {
+        return sendJson(res, sessionHeader !== undefined ? 404 : 400, { jsonrpc: '2.0', error: { code: -32000, message: 'Unknown session; send an initialize request first' }, id: null });
+    }
 
-        const scriptKeys = Array.from(session.scripts.keys());
-        if (scriptKeys.length === 0) return formatText({ status: "error", error: "No active scripts in session" });
-        const script = session.scripts.get(scriptKeys[scriptKeys.length - 1]);
+    const clientId = randomUUID();
+    const server = registry.createServer(clientId);
+    const transport = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => clientId,
+        onsessioninitialized: id => {
+            httpClients.set(id, { transport, server });
+            console.error(`Client ${id} connected (Streamable HTTP)`);
+        },
+        onsessionclosed: id => disconnectClient(id)
+    });
+    transport.onclose = () => disconnectClient(clientId);
 
-        if (!script) return formatText({ status: "error", error: "Script instance missing" });
+    // A failed or rejected initialize leaves nothing that will ever use this server: close it
+    const discard = () => {
+        ResourceNotifier.detach(server);
+        server.close().catch(() => { });
+    };
+    try {
+        await server.connect(transport);
+        await transport.handleRequest(req, res, body);
+    } catch (e) {
+        discard();
+        throw e;
+    }
+    if (!httpClients.has(clientId)) discard();
+}
+
+async function handleSse(res: ServerResponse) {
+    const transport = new SSEServerTransport(SSE_MESSAGES_PATH, res);
+    const clientId = transport.sessionId;
+    const server = registry.createServer(clientId);
+    httpClients.set(clientId, { transport, server });
+    transport.onclose = () => disconnectClient(clientId);
+    console.error(`Client ${clientId} connected (SSE)`);
+    await server.connect(transport);
+}
 
+async function serveHttp() {
+    const { host, port, token } = httpOptions();
+    const loopback = LOOPBACK_HOSTS.has(host);
+    if (!token && !loopback) {
+        throw new Error(`Refusing to listen on ${host} without a bearer token; pass --auth-token or set FRIDA_MCP_AUTH_TOKEN`);
+    }
+    // Without a token, only accept requests addressed to the loopback interface (blocks DNS rebinding from browsers)
+    const allowedHosts = new Set([`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`]);
+
+    const httpServer = http.createServer(async (req, res) => {
         try {
-            await script.post(message);
-            return formatText({ status: "success", sent: true });
+            if (!token && !allowedHosts.has(req.headers.host ?? '')) {
+                return sendJson(res, 403, { error: 'Host not allowed' });
+            }
+            if (!authorized(req, token)) {
+                return sendJson(res, 401, { error: 'Missing or invalid bearer token' }, { 'WWW-Authenticate': 'Bearer' });
+            }
+
+            const url = new URL(req.url ?? '/', 'http://localhost');
+            if (url.pathname === HTTP_PATH) return await handleStreamableHttp(req, res);
+            if (url.pathname === SSE_PATH && req.method === 'GET') return await handleSse(res);
+            if (url.pathname === SSE_MESSAGES_PATH && req.method === 'POST') {
+                const client = httpClients.get(url.searchParams.get('sessionId') ?? '');
+                if (!client || !(client.transport instanceof SSEServerTransport)) return sendJson(res, 404, { error: 'Unknown SSE session' });
+                return await client.transport.handlePostMessage(req, res, await readJsonBody(req));
+            }
+            sendJson(res, 404, { error: 'Not found' });
         } catch (e: any) {
-            return formatText({ status: "error", error: e.toString() });
+            console.error(`HTTP request failed: ${e}`);
+            if (!res.headersSent) sendJson(res, e instanceof SyntaxError ? 400 : 500, { error: e.message });
         }
-    }
-);
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once('error', reject);
+        httpServer.listen(port, host, () => resolve());
+    });
+    console.error(`Frida MCP server listening on http://${host}:${port}${HTTP_PATH} (SSE: ${SSE_PATH})${token ? ' with bearer auth' : ''}`);
+}
 
 // --- Connect ---
+const SHUTDOWN_TIMEOUT_MS = 5000;
+let shuttingDown = false;
+
+// Leave targets clean: unload scripts, detach sessions and undo spawn gating, then exit
+async function shutdown(reason: string) {
+    if (shuttingDown) return;
+    shuttingDown = true;
+    console.error(`Shutting down (${reason})...`);
+
+    ScriptFileManager.unwatchAll();
+    const cleanup = Promise.all([SessionManager.detachAll(), GatingManager.disableAll()]);
+    await Promise.race([cleanup, new Promise(r => setTimeout(r, SHUTDOWN_TIMEOUT_MS))]);
+    await AuditLog.close();
+    process.exit(0);
+}
+
 async function main() {
+    process.on('SIGINT', () => { shutdown("SIGINT"); });
+    process.on('SIGTERM', () => { shutdown("SIGTERM"); });
+
+    if (TRANSPORT === 'http') return serveHttp();
+    if (TRANSPORT !== 'stdio') throw new Error(`Unknown transport ${TRANSPORT}; use stdio or http`);
+
+    const server = registry.createServer('stdio');
     const transport = new StdioServerTransport();
-    await mcpServer.connect(transport);
+    server.server.onclose = () => { shutdown("transport closed"); };
+    await server.connect(transport);
+
+    process.stdin.on('end', () => { transport.close(); });
 }
 
-main().catch(console.error);
+main().catch(err => {
+    console.error(`Failed to start: ${err?.stack ?? err}`);
+    process.exit(1);
+});
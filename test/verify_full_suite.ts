@@ -1,8 +1,13 @@
 
 import { Client } from "@modelcontextprotocol/sdk/client/index.js";
 import { StdioClientTransport } from "@modelcontextprotocol/sdk/client/stdio.js";
+import { ResourceUpdatedNotificationSchema } from "@modelcontextprotocol/sdk/types.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { spawn } from "child_process";
 import { fileURLToPath } from 'url';
 import path from 'path';
+import fs from 'fs';
+import os from 'os';
 
 const __dirname = path.dirname(fileURLToPath(import.meta.url));
 
@@ -10,6 +15,7 @@ const __dirname = path.dirname(fileURLToPath(import.meta.url));
 const TEST_LOCAL = false; // USB (Android)
 const SPAWN_PROGRAM = "vng.game.gunny.mobi.classic.original";
 const DEVICE_ID = "emulator-5554"; // Explicit ID to bypass auto-discovery issues
+const REMOTE_ADDRESS = process.env.FRIDA_REMOTE_ADDRESS || ""; // e.g. "127.0.0.1:27042"; remote device tests are skipped when empty
 
 async function main() {
     console.log("🚀 Starting Full 9-Tool Verification Suite (USB/Android Target)");
@@ -216,7 +222,8 @@ async function main() {
             arguments: {
                 session_id: sessionId,
                 javascript_code: rpcCode,
-                keep_alive: true
+                keep_alive: true,
+                script_id: "rpc_test"
             }
         });
         const injectData = parse(injectRes);
@@ -281,6 +288,908 @@ async function main() {
         process.exit(1);
     }
 
+    // --- Script Registry Tests ---
+    process.stdout.write("15-17. Testing [list_scripts] / [reload_script] / [unload_script]... ");
+    try {
+        const listRes = parse(await client.callTool({ name: "list_scripts", arguments: { session_id: sessionId } }));
+        if (!listRes.scripts?.some((s: any) => s.script_id === "rpc_test")) throw new Error("rpc_test not listed: " + JSON.stringify(listRes));
+
+        const reloadRes = parse(await client.callTool({ name: "reload_script", arguments: { session_id: sessionId, script_id: "rpc_test" } }));
+        if (reloadRes.status !== "success" || reloadRes.script_id !== "rpc_test") throw new Error("Reload failed: " + JSON.stringify(reloadRes));
+
+        const pingRes = parse(await client.callTool({
+            name: "call_script_function",
+            arguments: { session_id: sessionId, function_name: "ping", script_id: "rpc_test" }
+        }));
+        if (pingRes.result !== "pong") throw new Error("RPC after reload failed: " + JSON.stringify(pingRes));
+
+        const unloadRes = parse(await client.callTool({ name: "unload_script", arguments: { session_id: sessionId, script_id: "rpc_test" } }));
+        if (!unloadRes.unloaded) throw new Error("Unload failed: " + JSON.stringify(unloadRes));
+
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- REPL Mode Tests ---
+    process.stdout.write("18. Testing [execute_in_session] (repl) / [inspect_session_globals]... ");
+    try {
+        const defineRes = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: "var replCounter = 41; function bump() { return ++replCounter; }", mode: "repl" }
+        }));
+        if (defineRes.status !== "success") throw new Error("Define failed: " + JSON.stringify(defineRes));
+
+        const useRes = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: "bump()", mode: "repl" }
+        }));
+        if (useRes.result !== 42) throw new Error("State not kept between calls: " + JSON.stringify(useRes));
+
+        const globalsRes = parse(await client.callTool({ name: "inspect_session_globals", arguments: { session_id: sessionId } }));
+        const names = (globalsRes.globals || []).map((g: any) => g.name);
+        if (!names.includes("replCounter") || !names.includes("bump")) throw new Error("Globals missing: " + JSON.stringify(globalsRes));
+
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Timeout Tests ---
+    process.stdout.write("19. Testing [execute_in_session] / [call_script_function] (timeout_ms)... ");
+    try {
+        const slowRes = await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: "Thread.sleep(5); 'too late'", timeout_ms: 1000 }
+        });
+        const slowData = parse(slowRes);
+        if (!slowRes.isError || slowData.code !== "TIMEOUT") throw new Error("Expected TIMEOUT: " + JSON.stringify(slowData));
+
+        await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: "rpc.exports = { slow: () => new Promise(() => { }) };", keep_alive: true, script_id: "slow_rpc" }
+        });
+        const rpcData = parse(await client.callTool({
+            name: "call_script_function",
+            arguments: { session_id: sessionId, function_name: "slow", script_id: "slow_rpc", timeout_ms: 1000 }
+        }));
+        if (rpcData.code !== "TIMEOUT") throw new Error("Expected RPC TIMEOUT: " + JSON.stringify(rpcData));
+        const scriptsAfter = parse(await client.callTool({ name: "list_scripts", arguments: { session_id: sessionId } }));
+        if (scriptsAfter.scripts.some((s: any) => s.script_id === "slow_rpc")) throw new Error("Timed-out RPC script still loaded");
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Message Queue Tests ---
+    process.stdout.write("20. Testing [get_session_messages] (cursor / filter / peek)... ");
+    try {
+        const emitRes = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: {
+                session_id: sessionId,
+                javascript_code: "setTimeout(function() { for (var i = 0; i < 5; i++) send({ type: 'queue_test', index: i }); }, 10);",
+                keep_alive: true,
+                script_id: "queue_test"
+            }
+        }));
+        if (emitRes.status !== "success") throw new Error("Emit script failed: " + JSON.stringify(emitRes));
+        await new Promise(r => setTimeout(r, 500));
+
+        const peekRes = parse(await client.callTool({
+            name: "get_session_messages",
+            arguments: { session_id: sessionId, script_id: "queue_test", type: ["queue_test"], limit: 2, peek: true }
+        }));
+        if (peekRes.messages?.length !== 2) throw new Error("Expected 2 peeked messages: " + JSON.stringify(peekRes));
+
+        const pageRes = parse(await client.callTool({
+            name: "get_session_messages",
+            arguments: { session_id: sessionId, script_id: "queue_test", since_cursor: peekRes.next_cursor, payload_path: "$.payload.index", payload_equals: 4 }
+        }));
+        if (pageRes.messages?.length !== 1 || pageRes.messages[0].message.payload.index !== 4) throw new Error("Cursor/JSONPath filter failed: " + JSON.stringify(pageRes));
+
+        await client.callTool({ name: "unload_script", arguments: { session_id: sessionId, script_id: "queue_test" } });
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Wait For Message Tests ---
+    process.stdout.write("21. Testing [wait_for_message]... ");
+    try {
+        const waitPromise = client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, payload_path: "$.payload.event", payload_equals: "fired", timeout_ms: 5000 }
+        });
+        await client.callTool({
+            name: "execute_in_session",
+            arguments: {
+                session_id: sessionId,
+                javascript_code: "setTimeout(function() { send({ event: 'noise' }); send({ event: 'fired' }); }, 200);",
+                keep_alive: true,
+                script_id: "wait_test"
+            }
+        });
+        const waitData = parse(await waitPromise);
+        if (waitData.status !== "success" || waitData.message?.message?.payload?.event !== "fired") throw new Error("No match: " + JSON.stringify(waitData));
+        if (!waitData.preceding?.some((m: any) => m.message?.payload?.event === "noise")) throw new Error("Preceding messages missing: " + JSON.stringify(waitData));
+
+        const timeoutData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, text_regex: "never-sent", timeout_ms: 500 }
+        }));
+        if (timeoutData.code !== "TIMEOUT" || timeoutData.timeout_ms !== 500) throw new Error("Expected timeout: " + JSON.stringify(timeoutData));
+
+        await client.callTool({ name: "unload_script", arguments: { session_id: sessionId, script_id: "wait_test" } });
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Gating Tests ---
+    process.stdout.write("22-27. Testing spawn & child gating tools... ");
+    try {
+        const enableSpawn = parse(await client.callTool({ name: "enable_spawn_gating", arguments: { device_id: DEVICE_ID } }));
+        if (!enableSpawn.spawn_gating) throw new Error("enable_spawn_gating failed: " + JSON.stringify(enableSpawn));
+
+        const spawns = parse(await client.callTool({ name: "list_pending_spawns", arguments: { device_id: DEVICE_ID } }));
+        if (!Array.isArray(spawns.pending) || !Array.isArray(spawns.observed)) throw new Error("list_pending_spawns failed: " + JSON.stringify(spawns));
+
+        const disableSpawn = parse(await client.callTool({ name: "disable_spawn_gating", arguments: { device_id: DEVICE_ID } }));
+        if (disableSpawn.spawn_gating !== false) throw new Error("disable_spawn_gating failed: " + JSON.stringify(disableSpawn));
+
+        const enableChild = parse(await client.callTool({ name: "enable_child_gating", arguments: { session_id: sessionId } }));
+        if (!enableChild.child_gating) throw new Error("enable_child_gating failed: " + JSON.stringify(enableChild));
+
+        const children = parse(await client.callTool({ name: "list_pending_children", arguments: { device_id: DEVICE_ID } }));
+        if (!Array.isArray(children.pending)) throw new Error("list_pending_children failed: " + JSON.stringify(children));
+
+        const disableChild = parse(await client.callTool({ name: "disable_child_gating", arguments: { session_id: sessionId } }));
+        if (disableChild.child_gating !== false) throw new Error("disable_child_gating failed: " + JSON.stringify(disableChild));
+
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Module Explorer Tests ---
+    process.stdout.write("30-34. Testing module / export / import / symbol explorer... ");
+    try {
+        const modsData = parse(await client.callTool({ name: "enumerate_modules", arguments: { session_id: sessionId, filter: "libc.so" } }));
+        if (!modsData.items?.some((m: any) => m.name === "libc.so")) throw new Error("libc.so not found: " + JSON.stringify(modsData));
+
+        const expData = parse(await client.callTool({
+            name: "enumerate_exports",
+            arguments: { session_id: sessionId, module: "libc.so", filter: "open*", type: "function", limit: 5 }
+        }));
+        if (!(expData.total > 0) || expData.items.length > 5) throw new Error("Export paging failed: " + JSON.stringify(expData));
+
+        const impData = parse(await client.callTool({ name: "enumerate_imports", arguments: { session_id: sessionId, module: "libc.so", limit: 5 } }));
+        if (impData.status !== "success") throw new Error("enumerate_imports failed: " + JSON.stringify(impData));
+
+        const symData = parse(await client.callTool({ name: "enumerate_symbols", arguments: { session_id: sessionId, module: "libc.so", limit: 5 } }));
+        if (symData.status !== "success") throw new Error("enumerate_symbols failed: " + JSON.stringify(symData));
+
+        const byName = parse(await client.callTool({ name: "resolve_symbol", arguments: { session_id: sessionId, query: "libc.so!open" } }));
+        if (!byName.address) throw new Error("resolve by name failed: " + JSON.stringify(byName));
+        const byAddr = parse(await client.callTool({ name: "resolve_symbol", arguments: { session_id: sessionId, query: byName.address } }));
+        if (byAddr.module !== "libc.so") throw new Error("resolve by address failed: " + JSON.stringify(byAddr));
+
+        console.log(`PASSED ✅ (libc.so!open @ ${byName.address})`);
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Memory Tests ---
+    process.stdout.write("35-38. Testing [enumerate_ranges] / [read_memory] / [write_memory] / [scan_memory]... ");
+    try {
+        const rangesData = parse(await client.callTool({ name: "enumerate_ranges", arguments: { session_id: sessionId, protection: "rw-", limit: 1 } }));
+        const range = rangesData.items?.[0];
+        if (!range) throw new Error("No rw- range: " + JSON.stringify(rangesData));
+
+        const allocData = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: "var buf = Memory.alloc(16); buf.writeByteArray([0xde, 0xad, 0xbe, 0xef]); globalThis.testBuf = buf; buf.toString();", mode: "repl" }
+        }));
+        const bufAddr = allocData.result;
+
+        const dumpData = parse(await client.callTool({ name: "read_memory", arguments: { session_id: sessionId, address: bufAddr, size: 16 } }));
+        if (!String(dumpData.data).includes("de ad be ef")) throw new Error("Hexdump mismatch: " + JSON.stringify(dumpData));
+
+        const writeData = parse(await client.callTool({ name: "write_memory", arguments: { session_id: sessionId, address: bufAddr, type: "u32", value: 42 } }));
+        if (writeData.status !== "success") throw new Error("Write failed: " + JSON.stringify(writeData));
+
+        const utf8Data = parse(await client.callTool({ name: "write_memory", arguments: { session_id: sessionId, address: bufAddr, type: "utf8", value: "h\u00e9\u20ac\ud83d\ude00" } }));
+        if (utf8Data.size !== 11) throw new Error("UTF-8 size mismatch: " + JSON.stringify(utf8Data));
+        const ambiguous = parse(await client.callTool({ name: "write_memory", arguments: { session_id: sessionId, address: bufAddr, hex: "00", base64: "AQ==" } }));
+        if (ambiguous.code !== "INVALID_ARGUMENT") throw new Error("hex and base64 together accepted: " + JSON.stringify(ambiguous));
+        await client.callTool({ name: "write_memory", arguments: { session_id: sessionId, address: bufAddr, type: "u32", value: 42 } });
+
+        const typedData = parse(await client.callTool({ name: "read_memory", arguments: { session_id: sessionId, address: bufAddr, format: "typed", type: "u32" } }));
+        if (typedData.data?.[0] !== 42) throw new Error("Typed read mismatch: " + JSON.stringify(typedData));
+
+        const b64Data = parse(await client.callTool({ name: "read_memory", arguments: { session_id: sessionId, address: bufAddr, size: 4, format: "base64" } }));
+        if (b64Data.data !== Buffer.from([42, 0, 0, 0]).toString("base64")) throw new Error("Base64 read mismatch: " + JSON.stringify(b64Data));
+
+        const scanData = parse(await client.callTool({
+            name: "scan_memory",
+            arguments: { session_id: sessionId, pattern: "2a 00 00 00", address: bufAddr, size: 16 }
+        }));
+        if (scanData.matches?.[0]?.address !== bufAddr) throw new Error("Scan mismatch: " + JSON.stringify(scanData));
+
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Hook Tests ---
+    process.stdout.write("39-41. Testing [hook_function] / [list_hooks] / [remove_hook]... ");
+    try {
+        const hookData = parse(await client.callTool({
+            name: "hook_function",
+            arguments: {
+                session_id: sessionId,
+                target: "libc.so!getpid",
+                hook_id: "getpid_test",
+                retval: { type: "int" },
+                backtrace: true
+            }
+        }));
+        if (hookData.status !== "success" || !hookData.targets?.length) throw new Error("Hook failed: " + JSON.stringify(hookData));
+
+        const waitPromise = client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, payload_path: "$.payload.hook_id", payload_equals: "getpid_test", timeout_ms: 5000 }
+        });
+        await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: "new NativeFunction(Module.getGlobalExportByName('getpid'), 'int', [])();" }
+        });
+        const eventData = parse(await waitPromise);
+        const event = eventData.message?.message?.payload;
+        if (event?.retval !== spawnedFridaPid || !Array.isArray(event.backtrace)) throw new Error("Unexpected hook event: " + JSON.stringify(eventData));
+
+        const listData = parse(await client.callTool({ name: "list_hooks", arguments: { session_id: sessionId } }));
+        if (!listData.hooks?.some((h: any) => h.hook_id === "getpid_test")) throw new Error("Hook not listed: " + JSON.stringify(listData));
+
+        const removeData = parse(await client.callTool({ name: "remove_hook", arguments: { session_id: sessionId, hook_id: "getpid_test" } }));
+        if (!removeData.removed) throw new Error("Remove failed: " + JSON.stringify(removeData));
+
+        // A glob without a module part matches exports of every module
+        const globData = parse(await client.callTool({ name: "hook_function", arguments: { session_id: sessionId, target: "getppi?", hook_id: "glob_test" } }));
+        if (globData.status !== "success" || !JSON.stringify(globData.targets).includes("getppid")) throw new Error("Bare glob hook failed: " + JSON.stringify(globData));
+        await client.callTool({ name: "remove_hook", arguments: { session_id: sessionId, hook_id: "glob_test" } });
+
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Tracer Tests ---
+    process.stdout.write("42 & 43. Testing [start_trace] / [stop_trace]... ");
+    try {
+        const startData = parse(await client.callTool({
+            name: "start_trace",
+            arguments: { session_id: sessionId, include: ["libc.so!getpid", "libc.so!getuid"], exclude: ["*!getuid"], trace_id: "trace_test" }
+        }));
+        if (startData.functions !== 1) throw new Error("Expected exactly getpid to be traced: " + JSON.stringify(startData));
+
+        await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: "var f = new NativeFunction(Module.getGlobalExportByName('getpid'), 'int', []); f(); f();" }
+        });
+        const batchData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, payload_path: "$.payload.trace_id", payload_equals: "trace_test", timeout_ms: 5000, since_cursor: 0 }
+        }));
+        const lines = Object.values(batchData.message?.message?.payload?.threads || {}).flat() as string[];
+        if (!lines.some(l => l.includes("getpid()"))) throw new Error("No call tree lines: " + JSON.stringify(batchData));
+
+        const stopData = parse(await client.callTool({ name: "stop_trace", arguments: { session_id: sessionId, trace_id: "trace_test" } }));
+        if (!(stopData.total_calls >= 2)) throw new Error("Unexpected hit counts: " + JSON.stringify(stopData));
+
+        // java: patterns go through the bundled Java bridge
+        const javaStart = parse(await client.callTool({
+            name: "start_trace",
+            arguments: { session_id: sessionId, include: ["java:android.os.Process!myPid"], mode: "summary", trace_id: "java_trace_test" }
+        }));
+        if (javaStart.status !== "success" || !(javaStart.functions >= 1)) throw new Error("Java trace failed: " + JSON.stringify(javaStart));
+        const javaCall = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, compile: true, javascript_code: "import Java from 'frida-java-bridge';\nJava.perform(() => send({ type: 'java_pid', pid: Java.use('android.os.Process').myPid() }));" }
+        }));
+        if (javaCall.status !== "success") throw new Error("Java call failed: " + JSON.stringify(javaCall));
+        await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, payload_path: "$.payload.type", payload_equals: "java_pid", timeout_ms: 5000, since_cursor: 0 }
+        });
+        const javaStop = parse(await client.callTool({ name: "stop_trace", arguments: { session_id: sessionId, trace_id: "java_trace_test" } }));
+        if (!javaStop.hits?.some((h: any) => h.name === "android.os.Process.myPid" && h.count >= 1)) throw new Error("Java method not traced: " + JSON.stringify(javaStop));
+
+        console.log(`PASSED ✅ (${stopData.total_calls} calls)`);
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Coverage Tests ---
+    process.stdout.write("44 & 45. Testing [start_coverage] / [stop_coverage]... ");
+    try {
+        const startData = parse(await client.callTool({
+            name: "start_coverage",
+            arguments: { session_id: sessionId, modules: ["libc.so"], coverage_id: "coverage_test" }
+        }));
+        if (startData.status !== "success" || !startData.threads?.length) throw new Error("Start failed: " + JSON.stringify(startData));
+
+        await new Promise(r => setTimeout(r, 2000));
+        const stopData = parse(await client.callTool({ name: "stop_coverage", arguments: { session_id: sessionId, coverage_id: "coverage_test" } }));
+        if (stopData.status !== "success" || !stopData.drcov_path) throw new Error("Stop failed: " + JSON.stringify(stopData));
+
+        const drcov = fs.readFileSync(stopData.drcov_path);
+        if (!drcov.subarray(0, 16).toString().startsWith("DRCOV VERSION: 2")) throw new Error("Bad drcov header");
+
+        // Coverage IDs name the default drcov file, so path separators are rejected
+        const escaping = await client.callTool({ name: "start_coverage", arguments: { session_id: sessionId, coverage_id: "../../coverage_escape" } });
+        if (!escaping.isError) throw new Error("Coverage ID with path separators accepted: " + JSON.stringify(parse(escaping)));
+
+        // Stopped runs release their ID, so it can be reused straight away
+        for (let run = 0; run < 2; run++) {
+            const summaryStart = parse(await client.callTool({
+                name: "start_coverage",
+                arguments: { session_id: sessionId, coverage_id: "coverage_summary", mode: "call_summary" }
+            }));
+            if (summaryStart.status !== "success") throw new Error(`call_summary run ${run} failed: ` + JSON.stringify(summaryStart));
+            const summaryStop = parse(await client.callTool({ name: "stop_coverage", arguments: { session_id: sessionId, coverage_id: "coverage_summary" } }));
+            if (summaryStop.status !== "success" || !Array.isArray(summaryStop.calls)) throw new Error("call_summary stop failed: " + JSON.stringify(summaryStop));
+        }
+
+        console.log(`PASSED ✅ (${stopData.block_count} blocks -> ${stopData.drcov_path})`);
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Compiler Tests ---
+    process.stdout.write("49. Testing [compile_agent] / [execute_in_session] (compile)... ");
+    try {
+        const agentSource = "import Java from 'frida-java-bridge';\nsend({ type: 'compiled', java: Java.available });";
+        const compileData = parse(await client.callTool({
+            name: "compile_agent",
+            arguments: { source: agentSource, language: "javascript", session_id: sessionId, script_id: "compiled_agent" }
+        }));
+        if (compileData.status !== "success" || compileData.script_id !== "compiled_agent") throw new Error("Compile failed: " + JSON.stringify(compileData));
+
+        const msgData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, script_id: "compiled_agent", payload_path: "$.payload.type", payload_equals: "compiled", timeout_ms: 5000, since_cursor: 0 }
+        }));
+        if (msgData.message?.message?.payload?.java !== true) throw new Error("Java bridge not available: " + JSON.stringify(msgData));
+
+        const execData = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: agentSource, compile: true }
+        }));
+        if (execData.status !== "success" || !execData.cached) throw new Error("Bundle not served from cache: " + JSON.stringify(execData));
+
+        const replCompile = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: sessionId, javascript_code: agentSource, compile: true, mode: "repl" }
+        }));
+        if (replCompile.code !== "INVALID_ARGUMENT") throw new Error("compile + repl accepted: " + JSON.stringify(replCompile));
+
+        const throwing = await client.callTool({ name: "compile_agent", arguments: { source: "throw new Error('boom');", language: "javascript", session_id: sessionId } });
+        const throwingData = parse(throwing);
+        if (!throwing.isError || throwingData.code !== "SCRIPT_ERROR" || !throwingData.hash) throw new Error("Load failure not reported as an error: " + JSON.stringify(throwingData));
+
+        await client.callTool({ name: "unload_script", arguments: { session_id: sessionId, script_id: "compiled_agent" } });
+        console.log(`PASSED ✅ (${compileData.bundle_size} bytes, ${compileData.compile_ms}ms)`);
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Script File Tests ---
+    process.stdout.write("50. Testing [load_script_file] (watch)... ");
+    try {
+        const scriptPath = path.join(os.tmpdir(), `frida-mcp-hook-${Date.now()}.js`);
+        fs.writeFileSync(scriptPath, "send({ type: 'file_version', version: 1 });");
+
+        const loadData = parse(await client.callTool({
+            name: "load_script_file",
+            arguments: { session_id: sessionId, path: scriptPath, script_id: "file_hook", watch: true }
+        }));
+        if (loadData.status !== "success" || !loadData.watching) throw new Error("Load failed: " + JSON.stringify(loadData));
+
+        fs.writeFileSync(scriptPath, "send({ type: 'file_version', version: 2 });");
+
+        const reloadData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, script_id: "server", payload_path: "$.payload.type", payload_equals: "script_reloaded", timeout_ms: 5000, since_cursor: 0 }
+        }));
+        if (reloadData.message?.message?.payload?.status !== "success") throw new Error("Reload failed: " + JSON.stringify(reloadData));
+
+        const versionData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, script_id: "file_hook", payload_path: "$.payload.version", payload_equals: 2, timeout_ms: 5000, since_cursor: 0 }
+        }));
+        if (!versionData.message) throw new Error("New version did not run: " + JSON.stringify(versionData));
+
+        // reload_script reads the file again, and overlapping reloads queue up instead of colliding
+        await client.callTool({ name: "unload_script", arguments: { session_id: sessionId, script_id: "file_hook" } });
+        await client.callTool({ name: "load_script_file", arguments: { session_id: sessionId, path: scriptPath, script_id: "file_hook" } });
+        fs.writeFileSync(scriptPath, "send({ type: 'file_version', version: 3 });");
+        const reloads = await Promise.all([1, 2].map(() => client.callTool({ name: "reload_script", arguments: { session_id: sessionId, script_id: "file_hook" } })));
+        if (reloads.some(r => r.isError)) throw new Error("Concurrent reload failed: " + JSON.stringify(reloads.map(parse)));
+        const rereadData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: sessionId, script_id: "file_hook", payload_path: "$.payload.version", payload_equals: 3, timeout_ms: 5000, since_cursor: 0 }
+        }));
+        if (!rereadData.message) throw new Error("reload_script did not re-read the file: " + JSON.stringify(rereadData));
+
+        await client.callTool({ name: "unload_script", arguments: { session_id: sessionId, script_id: "file_hook" } });
+        fs.unlinkSync(scriptPath);
+
+        // A compiled file outside any package needs an explicit project_root instead of walking its whole directory
+        const looseDir = fs.mkdtempSync(path.join(os.tmpdir(), "frida-mcp-loose-"));
+        const looseFile = path.join(looseDir, "agent.ts");
+        fs.writeFileSync(looseFile, "send('loose');");
+        const loose = parse(await client.callTool({ name: "load_script_file", arguments: { session_id: sessionId, path: looseFile } }));
+        if (loose.code !== "INVALID_ARGUMENT" || !loose.message.includes("project_root")) throw new Error("Loose compiled file accepted: " + JSON.stringify(loose));
+        fs.rmSync(looseDir, { recursive: true, force: true });
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Script Cache Tests ---
+    process.stdout.write("51. Testing [register_script_library] / [execute_in_session] (cached)... ");
+    try {
+        const regData = parse(await client.callTool({
+            name: "register_script_library",
+            arguments: { name: "mathlib", javascript_code: "function triple(x) { return x * 3; }" }
+        }));
+        if (regData.status !== "success") throw new Error("Register failed: " + JSON.stringify(regData));
+
+        const timings: any[] = [];
+        for (const runtime of ["v8", "v8", "qjs", "qjs"]) {
+            const execData = parse(await client.callTool({
+                name: "execute_in_session",
+                arguments: { session_id: sessionId, javascript_code: "triple(14)", libraries: ["mathlib"], runtime }
+            }));
+            if (execData.result !== 42) throw new Error(`Library not preloaded (${runtime}): ` + JSON.stringify(execData));
+            timings.push(execData.timing);
+        }
+        if (timings[1].cache !== "hit" && timings[1].cache !== "unsupported") throw new Error("Snapshot not reused: " + JSON.stringify(timings));
+        if (timings[3].cache !== "hit") throw new Error("Bytecode not reused: " + JSON.stringify(timings));
+
+        const listData = parse(await client.callTool({ name: "list_script_libraries", arguments: {} }));
+        if (!listData.libraries.some((l: any) => l.name === "mathlib")) throw new Error("Library not listed");
+        await client.callTool({ name: "register_script_library", arguments: { name: "mathlib" } });
+
+        console.log(`PASSED ✅ (v8 ${timings[0].total_ms}ms -> ${timings[1].total_ms}ms, qjs ${timings[2].total_ms}ms -> ${timings[3].total_ms}ms)`);
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Serialization Tests ---
+    process.stdout.write("52. Testing [execute_in_session] (binary-safe results)... ");
+    try {
+        const execData = parse(await client.callTool({
+            name: "execute_in_session",
+            arguments: {
+                session_id: sessionId,
+                javascript_code: "var o = { base: Process.getModuleByName('libc.so').base, bytes: new Uint8Array([1, 2, 255]).buffer, big: new Uint8Array(100000).buffer }; o.self = o; o",
+                binary_encoding: "base64"
+            }
+        }));
+        const result = execData.result;
+        if (result?.$type === "truncated") {
+            if (!result.resource_uri?.startsWith("frida://blobs/")) throw new Error("No resource URI: " + JSON.stringify(result));
+            const blob = await client.readResource({ uri: result.resource_uri });
+            const full = JSON.parse((blob.contents[0] as any).text);
+            if (!/^0x[0-9a-f]+$/.test(full.base)) throw new Error("Pointer not encoded as hex: " + full.base);
+            if (full.bytes?.data !== "AQL/") throw new Error("Bytes not base64: " + JSON.stringify(full.bytes));
+            if (full.self?.$ref !== "$") throw new Error("Cycle not encoded as reference: " + JSON.stringify(full.self));
+        } else {
+            throw new Error("Oversized result was inlined: " + JSON.stringify(execData).substring(0, 200));
+        }
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Error Model Tests ---
+    process.stdout.write("53. Testing structured errors... ");
+    try {
+        const noSession = await client.callTool({ name: "list_scripts", arguments: { session_id: "session_missing" } });
+        const noSessionData = parse(noSession);
+        if (!noSession.isError || noSessionData.code !== "SESSION_NOT_FOUND" || !noSessionData.hint) throw new Error("Bad session error: " + JSON.stringify(noSessionData));
+
+        const noDevice = parse(await client.callTool({ name: "enumerate_processes", arguments: { device_id: "no-such-device" } }));
+        if (noDevice.code !== "DEVICE_NOT_FOUND") throw new Error("Bad device error: " + JSON.stringify(noDevice));
+
+        const noProcess = parse(await client.callTool({ name: "get_process_by_name", arguments: { name: "no-such-process-xyz", device_id: DEVICE_ID } }));
+        if (noProcess.code !== "PROCESS_NOT_FOUND" || noProcess.found !== false) throw new Error("Bad process error: " + JSON.stringify(noProcess));
+
+        const thrown = parse(await client.callTool({ name: "call_script_function", arguments: { session_id: sessionId, function_name: "missing_export" } }));
+        if (thrown.status !== "error" || !thrown.code) throw new Error("Bad RPC error: " + JSON.stringify(thrown));
+
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Policy Tests ---
+    process.stdout.write("54. Testing policy enforcement (read-only, device allowlist, workspace)... ");
+    try {
+        const policyPath = path.join(os.tmpdir(), `frida-mcp-policy-${Date.now()}.json`);
+        fs.writeFileSync(policyPath, JSON.stringify({ devices: { allow: [DEVICE_ID] }, tools: { deny: ["list_applications"] }, read_only: true }));
+
+        const policyClient = new Client({ name: "verify-policy", version: "1.0.0" }, { capabilities: {} });
+        await policyClient.connect(new StdioClientTransport({ command: "node", args: [serverPath, "--policy", policyPath] }));
+
+        const killData = parse(await policyClient.callTool({ name: "kill_process", arguments: { pid: 1, device_id: DEVICE_ID } }));
+        if (killData.code !== "PERMISSION_DENIED") throw new Error("kill_process not blocked: " + JSON.stringify(killData));
+
+        const listed = await policyClient.listTools();
+        if (listed.tools.some(t => t.name === "list_applications")) throw new Error("Denied tool still listed");
+
+        const devs = parse(await policyClient.callTool({ name: "enumerate_devices", arguments: {} }));
+        if (!Array.isArray(devs) || devs.some((d: any) => d.id !== DEVICE_ID)) throw new Error("Device allowlist not applied: " + JSON.stringify(devs));
+
+        const localData = parse(await policyClient.callTool({ name: "enumerate_processes", arguments: { device_id: "local" } }));
+        if (localData.code !== "PERMISSION_DENIED") throw new Error("Local device not blocked: " + JSON.stringify(localData));
+
+        await policyClient.close();
+        fs.unlinkSync(policyPath);
+
+        // Host paths outside the workspace are refused before anything is read
+        const workspace = fs.mkdtempSync(path.join(os.tmpdir(), "frida-mcp-workspace-"));
+        const workspaceClient = new Client({ name: "verify-workspace", version: "1.0.0" }, { capabilities: {} });
+        await workspaceClient.connect(new StdioClientTransport({ command: "node", args: [serverPath, "--workspace", workspace] }));
+        const outsideFile = parse(await workspaceClient.callTool({ name: "load_script_file", arguments: { session_id: sessionId, path: "/etc/hosts" } }));
+        if (outsideFile.code !== "PERMISSION_DENIED") throw new Error("Path outside the workspace was loaded: " + JSON.stringify(outsideFile));
+        const escaping = parse(await workspaceClient.callTool({ name: "replay_recording", arguments: { path: path.join(workspace, "..", "audit.jsonl") } }));
+        if (escaping.code !== "PERMISSION_DENIED") throw new Error("Path escaping the workspace was read: " + JSON.stringify(escaping));
+        await workspaceClient.close();
+        fs.rmdirSync(workspace);
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- HTTP Transport Tests ---
+    process.stdout.write("55. Testing HTTP transport (bearer auth, per-client sessions)... ");
+    try {
+        const port = 3900 + Math.floor(Math.random() * 100);
+        const token = "verify-" + Date.now();
+        const httpServer = spawn("node", [serverPath, "--transport", "http", "--port", String(port), "--auth-token", token], { stdio: ["ignore", "ignore", "pipe"] });
+        // Stop the server even when an assertion fails, so it does not outlive the suite
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(() => reject(new Error("HTTP server did not start")), 10000);
+                httpServer.stderr!.on("data", chunk => {
+                    if (String(chunk).includes("listening")) { clearTimeout(timer); resolve(); }
+                });
+                httpServer.once("exit", code => reject(new Error("HTTP server exited with " + code)));
+            });
+
+            const url = new URL(`http://127.0.0.1:${port}/mcp`);
+            const unauthorized = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: "{}" });
+            if (unauthorized.status !== 401) throw new Error("Expected 401 without token, got " + unauthorized.status);
+
+            // An initialize the transport rejects (no Accept header) must not leave a half-created client behind
+            const initialize = { jsonrpc: "2.0", id: 1, method: "initialize", params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "verify-rejected", version: "1.0.0" } } };
+            const rejected = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json", Authorization: `Bearer ${token}` }, body: JSON.stringify(initialize) });
+            if (rejected.ok || rejected.headers.get("mcp-session-id")) throw new Error("Initialize without Accept header was accepted: " + rejected.status);
+
+            const connectHttp = async (name: string) => {
+                const c = new Client({ name, version: "1.0.0" }, { capabilities: {} });
+                await c.connect(new StreamableHTTPClientTransport(url, { requestInit: { headers: { Authorization: `Bearer ${token}` } } }));
+                return c;
+            };
+            const clientA = await connectHttp("verify-http-a");
+            const clientB = await connectHttp("verify-http-b");
+
+            const privateSess = parse(await clientA.callTool({ name: "create_interactive_session", arguments: { process_id: spawnedFridaPid, device_id: DEVICE_ID } }));
+            const sharedSess = parse(await clientA.callTool({ name: "create_interactive_session", arguments: { process_id: spawnedFridaPid, device_id: DEVICE_ID, shared: true } }));
+            if (!privateSess.session_id || !sharedSess.session_id) throw new Error("Session creation failed: " + JSON.stringify([privateSess, sharedSess]));
+
+            const seenByB = parse(await clientB.callTool({ name: "list_sessions", arguments: {} }));
+            const idsSeenByB = seenByB.sessions.map((s: any) => s.session_id);
+            if (idsSeenByB.includes(privateSess.session_id)) throw new Error("Private session leaked to another client");
+            if (!idsSeenByB.includes(sharedSess.session_id)) throw new Error("Shared session not visible to another client");
+
+            const foreign = parse(await clientB.callTool({ name: "detach_session", arguments: { session_id: privateSess.session_id } }));
+            if (foreign.code !== "SESSION_NOT_FOUND") throw new Error("Client B could use client A's session: " + JSON.stringify(foreign));
+
+            const foreignSubscription = await clientB.subscribeResource({ uri: `frida://sessions/${privateSess.session_id}` }).then(() => null, (err: any) => err);
+            if (!foreignSubscription) throw new Error("Client B could subscribe to client A's private session");
+
+            await clientA.callTool({ name: "register_script_library", arguments: { name: "client_a_lib", javascript_code: "var fromA = 1;" } });
+            const librariesOfB = parse(await clientB.callTool({ name: "list_script_libraries", arguments: {} }));
+            if (librariesOfB.libraries.some((l: any) => l.name === "client_a_lib")) throw new Error("Script library leaked to another client");
+
+            await clientA.callTool({ name: "detach_session", arguments: { session_id: privateSess.session_id } });
+            await new Promise(r => setTimeout(r, 500));
+            const detachedSeenByB = parse(await clientB.callTool({ name: "list_sessions", arguments: {} }));
+            if (detachedSeenByB.recently_detached.some((r: any) => r.session_id === privateSess.session_id)) throw new Error("Private detach record leaked to another client");
+            const detachedRead = await clientB.readResource({ uri: `frida://sessions/${privateSess.session_id}` }).then(() => null, (err: any) => err);
+            if (!detachedRead) throw new Error("Client B could read client A's detach record");
+
+            await clientB.callTool({ name: "detach_session", arguments: { session_id: sharedSess.session_id } });
+            await clientA.close();
+            await clientB.close();
+        } finally {
+            httpServer.kill();
+        }
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Audit Log Tests ---
+    process.stdout.write("56. Testing [replay_recording] with an audit log... ");
+    try {
+        const auditPath = path.join(os.tmpdir(), `frida-mcp-audit-${Date.now()}.jsonl`);
+        const auditClient = new Client({ name: "verify-audit", version: "1.0.0" }, { capabilities: {} });
+        await auditClient.connect(new StdioClientTransport({ command: "node", args: [serverPath, "--audit-log", auditPath] }));
+
+        const recorded = parse(await auditClient.callTool({ name: "create_interactive_session", arguments: { process_id: spawnedFridaPid, device_id: DEVICE_ID } }));
+        await auditClient.callTool({ name: "execute_in_session", arguments: { session_id: recorded.session_id, javascript_code: "rpc.exports = { answer: () => 42 }; 1", keep_alive: true, script_id: "audited" } });
+        await auditClient.callTool({ name: "call_script_function", arguments: { session_id: recorded.session_id, function_name: "answer", script_id: "audited" } });
+
+        await new Promise(r => setTimeout(r, 200)); // the log is written through a buffered stream
+        const entries = fs.readFileSync(auditPath, "utf8").trim().split("\n").map(line => JSON.parse(line));
+        if (!entries.some(e => e.type === "tool_call" && e.tool === "call_script_function" && e.session_id === recorded.session_id)) throw new Error("Tool call not audited");
+        if (!entries.some(e => e.type === "script_source" && e.script_id === "audited")) throw new Error("Script source not audited");
+        if ((fs.statSync(auditPath).mode & 0o777) !== 0o600) throw new Error("Audit log is readable by others: " + (fs.statSync(auditPath).mode & 0o777).toString(8));
+
+        await auditClient.callTool({ name: "detach_session", arguments: { session_id: recorded.session_id } });
+        const replay = parse(await auditClient.callTool({
+            name: "replay_recording",
+            arguments: { path: auditPath, session_id: recorded.session_id, device_id: DEVICE_ID, pid_map: { [spawnedFridaPid]: spawnedFridaPid } }
+        }));
+        if (replay.status !== "success" || replay.replayed !== 3) throw new Error("Replay failed: " + JSON.stringify(replay));
+        if (replay.steps[2].result.result !== 42) throw new Error("Replayed RPC returned " + JSON.stringify(replay.steps[2].result));
+
+        await auditClient.callTool({ name: "detach_session", arguments: { session_id: replay.session_map[recorded.session_id] } });
+        await auditClient.close();
+        fs.unlinkSync(auditPath);
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Resource Tests ---
+    process.stdout.write("57. Testing resources and subscriptions... ");
+    try {
+        const resClient = new Client({ name: "verify-resources", version: "1.0.0" }, { capabilities: {} });
+        await resClient.connect(new StdioClientTransport({ command: "node", args: [serverPath] }));
+
+        const devicesRes = await resClient.readResource({ uri: "frida://devices" });
+        const devices = JSON.parse(String((devicesRes.contents[0] as any).text));
+        if (!devices.some((d: any) => d.id === DEVICE_ID)) throw new Error("Device missing from frida://devices");
+
+        const sess = parse(await resClient.callTool({ name: "create_interactive_session", arguments: { process_id: spawnedFridaPid, device_id: DEVICE_ID } }));
+        const messagesUri = `frida://sessions/${sess.session_id}/messages`;
+        const updated: string[] = [];
+        resClient.setNotificationHandler(ResourceUpdatedNotificationSchema, notification => { updated.push(notification.params.uri); });
+        await resClient.subscribeResource({ uri: messagesUri });
+        await resClient.subscribeResource({ uri: `frida://sessions/${sess.session_id}` });
+
+        await resClient.callTool({ name: "execute_in_session", arguments: { session_id: sess.session_id, javascript_code: "setTimeout(() => send('resource-ping'), 10); 1", keep_alive: true } });
+        await new Promise(r => setTimeout(r, 500));
+        if (!updated.includes(messagesUri)) throw new Error("No resources/updated for new messages");
+
+        const messagesRes = JSON.parse(String(((await resClient.readResource({ uri: messagesUri })).contents[0] as any).text));
+        if (!messagesRes.messages.some((m: any) => m.message.payload === "resource-ping")) throw new Error("Message missing from resource");
+
+        await resClient.callTool({ name: "detach_session", arguments: { session_id: sess.session_id } });
+        await new Promise(r => setTimeout(r, 300));
+        if (!updated.includes(`frida://sessions/${sess.session_id}`)) throw new Error("No resources/updated on detach");
+
+        await resClient.close();
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Recipe Tests ---
+    process.stdout.write("58. Testing recipes ([run_recipe], [list_recipes], prompts)... ");
+    try {
+        const recipesDir = fs.mkdtempSync(path.join(os.tmpdir(), "frida-mcp-recipes-"));
+        fs.writeFileSync(path.join(recipesDir, "module_count.json"), JSON.stringify({
+            name: "module_count",
+            version: "0.1.0",
+            description: "Send the number of loaded modules.",
+            parameters: { label: { type: "string", description: "Label", default: "modules" } },
+            source: "send({ type: 'recipe_event', label: RECIPE_PARAMS.label, count: Process.enumerateModules().length });"
+        }));
+        fs.writeFileSync(path.join(recipesDir, "plan9_only.json"), JSON.stringify({
+            name: "plan9_only",
+            version: "0.1.0",
+            description: "Only runs on Plan 9.",
+            platforms: ["plan9"],
+            source: "send('unreachable');"
+        }));
+        const recipeClient = new Client({ name: "verify-recipes", version: "1.0.0" }, { capabilities: {} });
+        await recipeClient.connect(new StdioClientTransport({ command: "node", args: [serverPath, "--recipes", recipesDir] }));
+
+        const listed = parse(await recipeClient.callTool({ name: "list_recipes", arguments: {} }));
+        const names = listed.recipes.map((r: any) => r.name);
+        for (const name of ["ssl_pinning_bypass", "root_detection_bypass", "anti_debug_bypass", "dlopen_logger", "crypto_logger", "module_count"]) {
+            if (!names.includes(name)) throw new Error("Recipe missing: " + name);
+        }
+
+        const prompts = await recipeClient.listPrompts();
+        if (!prompts.prompts.some(p => p.name === "dlopen_logger")) throw new Error("Recipe prompt missing");
+        const prompt = await recipeClient.getPrompt({ name: "dlopen_logger", arguments: { session_id: "s1", backtrace: "true" } });
+        if (!String((prompt.messages[0].content as any).text).includes('"backtrace": true')) throw new Error("Prompt did not convert parameters");
+
+        const sess = parse(await recipeClient.callTool({ name: "create_interactive_session", arguments: { process_id: spawnedFridaPid, device_id: DEVICE_ID } }));
+        const bad = parse(await recipeClient.callTool({ name: "run_recipe", arguments: { session_id: sess.session_id, recipe: "dlopen_logger", params: { backtrace: "yes" } } }));
+        if (bad.code !== "INVALID_ARGUMENT") throw new Error("Invalid params accepted: " + JSON.stringify(bad));
+
+        const run = parse(await recipeClient.callTool({ name: "run_recipe", arguments: { session_id: sess.session_id, recipe: "module_count" } }));
+        if (run.status !== "success" || run.params.label !== "modules") throw new Error("run_recipe failed: " + JSON.stringify(run));
+        const event = parse(await recipeClient.callTool({ name: "wait_for_message", arguments: { session_id: sess.session_id, script_id: "recipe_module_count", timeout_ms: 5000 } }));
+        if (!(event.message?.message?.payload?.count > 0)) throw new Error("Recipe event missing: " + JSON.stringify(event));
+
+        const again = parse(await recipeClient.callTool({ name: "run_recipe", arguments: { session_id: sess.session_id, recipe: "module_count" } }));
+        if (again.code !== "INVALID_ARGUMENT" || !again.message.includes("reload_script")) throw new Error("Running a loaded recipe again was not rejected clearly: " + JSON.stringify(again));
+        const wrongPlatform = parse(await recipeClient.callTool({ name: "run_recipe", arguments: { session_id: sess.session_id, recipe: "plan9_only" } }));
+        if (wrongPlatform.code !== "NOT_SUPPORTED") throw new Error("Recipe for another platform was run: " + JSON.stringify(wrongPlatform));
+
+        const scripts = parse(await recipeClient.callTool({ name: "list_scripts", arguments: { session_id: sess.session_id } }));
+        if (!JSON.stringify(scripts).includes("module_count@0.1.0")) throw new Error("Recipe not tracked on the script");
+
+        await recipeClient.callTool({ name: "detach_session", arguments: { session_id: sess.session_id } });
+        await recipeClient.close();
+        fs.rmSync(recipesDir, { recursive: true, force: true });
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Remote Device Tests ---
+    if (REMOTE_ADDRESS) {
+        process.stdout.write(`28 & 29. Testing [add_remote_device] / [remove_remote_device] (${REMOTE_ADDRESS})... `);
+        try {
+            const addData = parse(await client.callTool({ name: "add_remote_device", arguments: { address: REMOTE_ADDRESS } }));
+            if (addData.status !== "success") throw new Error("Add failed: " + JSON.stringify(addData));
+
+            const remoteProcs = parse(await client.callTool({ name: "enumerate_processes", arguments: { device_id: addData.id } }));
+            if (!Array.isArray(remoteProcs)) throw new Error("Remote device not usable as device_id: " + JSON.stringify(remoteProcs));
+
+            const removeData = parse(await client.callTool({ name: "remove_remote_device", arguments: { address: REMOTE_ADDRESS } }));
+            if (!removeData.removed) throw new Error("Remove failed: " + JSON.stringify(removeData));
+
+            console.log(`PASSED ✅ (${remoteProcs.length} remote processes)`);
+        } catch (e: any) {
+            console.error("FAILED ❌ (" + e.message + ")");
+            process.exit(1);
+        }
+    }
+
+    // --- Session Lifecycle Tests ---
+    process.stdout.write("46 & 47. Testing [list_sessions] / [detach_session]... ");
+    try {
+        const listData = parse(await client.callTool({ name: "list_sessions", arguments: {} }));
+        const listed = listData.sessions?.find((s: any) => s.session_id === sessionId);
+        if (!listed || listed.pid !== spawnedFridaPid || listed.state !== "attached") throw new Error("Session not listed: " + JSON.stringify(listData));
+        // Helper agents loaded by earlier tests report how they were injected
+        if (!["hit", "miss", "unsupported"].includes(listed.helper_agent_timing?.hooks?.cache)) throw new Error("Hooks agent timing missing: " + JSON.stringify(listed.helper_agent_timing));
+
+        const detachData = parse(await client.callTool({ name: "detach_session", arguments: { session_id: sessionId } }));
+        if (!detachData.detached) throw new Error("Detach failed: " + JSON.stringify(detachData));
+
+        const afterData = parse(await client.callTool({ name: "list_sessions", arguments: {} }));
+        if (afterData.sessions.some((s: any) => s.session_id === sessionId)) throw new Error("Session still listed after detach");
+        const record = afterData.recently_detached.find((r: any) => r.session_id === sessionId);
+        if (record?.reason !== "application-requested") throw new Error("Detach reason missing: " + JSON.stringify(afterData));
+
+        console.log("PASSED ✅");
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Launch & Instrument Tests ---
+    process.stdout.write(`48. Testing [launch_and_instrument] (${SPAWN_PROGRAM})... `);
+    try {
+        const launchData = parse(await client.callTool({
+            name: "launch_and_instrument",
+            arguments: {
+                program: SPAWN_PROGRAM,
+                device_id: DEVICE_ID,
+                scripts: [
+                    { script_id: "early_hooks", javascript_code: "send({ type: 'early', pid: Process.id });" },
+                    { script_id: "early_ready", javascript_code: "setTimeout(() => send({ type: 'ready' }), 100);", wait_for_ready: true }
+                ]
+            }
+        }));
+        if (launchData.status !== "success" || launchData.scripts?.length !== 2) throw new Error("Launch failed: " + JSON.stringify(launchData));
+
+        const earlyData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: launchData.session_id, script_id: "early_hooks", payload_path: "$.payload.type", payload_equals: "early", timeout_ms: 5000, since_cursor: 0 }
+        }));
+        if (earlyData.message?.message?.payload?.pid !== launchData.pid) throw new Error("Early message missing: " + JSON.stringify(earlyData));
+
+        await client.callTool({ name: "detach_session", arguments: { session_id: launchData.session_id } });
+        await client.callTool({ name: "kill_process", arguments: { pid: launchData.pid, device_id: DEVICE_ID } });
+        console.log(`PASSED ✅ (PID: ${launchData.pid})`);
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
+    // --- Reattach Tests ---
+    process.stdout.write(`59. Testing [create_interactive_session] (auto_reattach restores hooks)... `);
+    try {
+        const reattachSession = parse(await client.callTool({
+            name: "create_interactive_session",
+            arguments: { process_id: spawnedFridaPid, device_id: DEVICE_ID, auto_reattach: true, reattach_timeout_ms: 30000 }
+        })).session_id;
+        const hookData = parse(await client.callTool({
+            name: "hook_function",
+            arguments: { session_id: reattachSession, target: "libc.so!getpid", hook_id: "reattach_hook", retval: { type: "int" } }
+        }));
+        if (hookData.status !== "success") throw new Error("Hook failed: " + JSON.stringify(hookData));
+
+        // Restart the app under the same name; the session should follow it
+        await client.callTool({ name: "kill_process", arguments: { pid: spawnedFridaPid, device_id: DEVICE_ID } });
+        const respawnData = parse(await client.callTool({ name: "spawn_process", arguments: { program: SPAWN_PROGRAM, device_id: DEVICE_ID } }));
+        if (!respawnData.pid) throw new Error("Respawn failed: " + JSON.stringify(respawnData));
+        spawnedFridaPid = respawnData.pid;
+        await client.callTool({ name: "resume_process", arguments: { pid: spawnedFridaPid, device_id: DEVICE_ID } });
+
+        const reattachedData = parse(await client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: reattachSession, script_id: "server", payload_path: "$.payload.type", payload_equals: "session_reattached", timeout_ms: 30000, since_cursor: 0 }
+        }));
+        const reattached = reattachedData.message?.message?.payload;
+        if (reattached?.new_pid !== spawnedFridaPid || !reattached.restored?.some((r: any) => r.id === "reattach_hook")) {
+            throw new Error("Hook not restored: " + JSON.stringify(reattachedData));
+        }
+
+        const waitPromise = client.callTool({
+            name: "wait_for_message",
+            arguments: { session_id: reattachSession, payload_path: "$.payload.hook_id", payload_equals: "reattach_hook", timeout_ms: 5000, since_cursor: reattachedData.next_cursor }
+        });
+        await client.callTool({
+            name: "execute_in_session",
+            arguments: { session_id: reattachSession, javascript_code: "new NativeFunction(Module.getGlobalExportByName('getpid'), 'int', [])();" }
+        });
+        const eventData = parse(await waitPromise);
+        if (eventData.message?.message?.payload?.retval !== spawnedFridaPid) throw new Error("Restored hook did not fire: " + JSON.stringify(eventData));
+
+        await client.callTool({ name: "detach_session", arguments: { session_id: reattachSession } });
+        console.log(`PASSED ✅ (PID: ${spawnedFridaPid})`);
+    } catch (e: any) {
+        console.error("FAILED ❌ (" + e.message + ")");
+        process.exit(1);
+    }
+
     // 14. kill_process (Cleanup)
     if (spawnedFridaPid) {
         process.stdout.write(`14. Testing [kill_process] (PID: ${spawnedFridaPid})... `);